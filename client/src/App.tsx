@@ -4,11 +4,14 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import UploadPage from "@/pages/upload";
+import HistoryPage from "@/pages/history";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={UploadPage} />
+      <Route path="/history" component={HistoryPage} />
+      <Route path="/uploads/:uploadId" component={UploadPage} />
       <Route component={UploadPage} />
     </Switch>
   );
@@ -1,27 +1,180 @@
-import { useState } from "react";
+import { useMemo, useState, type ReactNode } from "react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { formatTokenCount } from "@/lib/utils";
+import { isEmptyPathFilter, matchPath, parsePathFilter } from "@/lib/path-filter";
 import { 
   Folder, 
   FolderOpen, 
   File, 
+  Binary,
   ChevronRight, 
   ChevronDown,
   Expand,
-  Shrink
+  Shrink,
+  RefreshCw,
+  Search,
+  X
 } from "lucide-react";
-import type { FileTreeNode, ProcessingStats } from "@shared/schema";
+import type { FileSelection, FileTreeNode, ProcessingStats } from "@shared/schema";
 
 interface FileTreeProps {
   fileTree: FileTreeNode[];
   onFileSelect: (filePath: string) => void;
   selectedFile: string | null;
+  // File shown at the top of the output viewer, highlighted as you scroll
+  visibleFile?: string | null;
   stats: ProcessingStats;
+  // Called with the checked file paths, or the unchecked ones when that list
+  // is shorter; both are null when every file is checked
+  onRegenerate: (selection: FileSelection) => void;
+  isRegenerating: boolean;
+  // Only these files (and their folders) are shown, e.g. the files with search hits
+  filterPaths?: string[] | null;
 }
 
-export function FileTree({ fileTree, onFileSelect, selectedFile, stats }: FileTreeProps) {
+// Files whose content is in the output, i.e. the ones that can be checked
+function collectOutputFiles(nodes: FileTreeNode[], files: FileTreeNode[] = []): FileTreeNode[] {
+  nodes.forEach(node => {
+    if (node.type === 'folder') {
+      collectOutputFiles(node.children ?? [], files);
+    } else if (node.language) {
+      files.push(node);
+    }
+  });
+  return files;
+}
+
+// Prunes the tree to the nodes that pass, keeping the folders on their path
+function filterTree(nodes: FileTreeNode[], keep: (node: FileTreeNode) => boolean): FileTreeNode[] {
+  return nodes.flatMap(node => {
+    if (node.type === 'file') {
+      return keep(node) ? [node] : [];
+    }
+    const children = filterTree(node.children ?? [], keep);
+    return children.length > 0 ? [{ ...node, children }] : [];
+  });
+}
+
+export function FileTree({
+  fileTree,
+  onFileSelect,
+  selectedFile,
+  visibleFile = null,
+  stats,
+  onRegenerate,
+  isRegenerating,
+  filterPaths = null
+}: FileTreeProps) {
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
   const [allExpanded, setAllExpanded] = useState(false);
+  // Unchecked file paths; everything starts checked
+  const [uncheckedFiles, setUncheckedFiles] = useState<Set<string>>(new Set());
+
+  const outputFiles = useMemo(() => collectOutputFiles(fileTree), [fileTree]);
+
+  // Fuzzy path filter typed above the tree, e.g. `ext:ts button`
+  const [filterQuery, setFilterQuery] = useState('');
+  const pathFilter = useMemo(() => parsePathFilter(filterQuery), [filterQuery]);
+  const hasPathFilter = !isEmptyPathFilter(pathFilter);
+
+  // Matched character indices by file path, for files passing the path filter
+  const pathMatches = useMemo(() => {
+    const matches = new Map<string, Set<number>>();
+    if (!hasPathFilter) return matches;
+
+    const visit = (node: FileTreeNode) => {
+      if (node.type === 'folder') {
+        node.children?.forEach(visit);
+        return;
+      }
+      const matched = matchPath(node.path, node.extension, pathFilter);
+      if (matched) matches.set(node.path, matched);
+    };
+    fileTree.forEach(visit);
+    return matches;
+  }, [fileTree, pathFilter, hasPathFilter]);
+
+  const isFiltered = filterPaths !== null || hasPathFilter;
+  const displayedTree = useMemo(() => {
+    if (!isFiltered) return fileTree;
+    const searchPaths = filterPaths && new Set(filterPaths);
+    return filterTree(fileTree, node =>
+      (!searchPaths || searchPaths.has(node.path)) && (!hasPathFilter || pathMatches.has(node.path)));
+  }, [fileTree, filterPaths, hasPathFilter, pathMatches, isFiltered]);
+
+  // The node's name with the characters matched by the path filter emphasized
+  const renderName = (node: FileTreeNode): ReactNode => {
+    const matched = pathMatches.get(node.path);
+    if (!matched) return node.name;
+
+    const offset = node.path.length - node.name.length;
+    return Array.from(node.name, (char, index) => matched.has(offset + index)
+      ? <span key={index} className="text-blue-600 font-semibold">{char}</span>
+      : char);
+  };
+
+  // Output files under each folder, for tri-state folder checkboxes
+  const folderFiles = useMemo(() => {
+    const map = new Map<string, string[]>();
+    const visit = (node: FileTreeNode): string[] => {
+      if (node.type === 'file') {
+        return node.language ? [node.path] : [];
+      }
+      const paths = (node.children ?? []).flatMap(visit);
+      map.set(node.path, paths);
+      return paths;
+    };
+    fileTree.forEach(visit);
+    return map;
+  }, [fileTree]);
+
+  const selection = useMemo(() => {
+    const checked = outputFiles.filter(file => !uncheckedFiles.has(file.path));
+    return {
+      files: checked.length,
+      tokens: checked.reduce((sum, file) => sum + (file.tokens ?? 0), 0),
+      lines: checked.reduce((sum, file) => sum + (file.lines ?? 0), 0)
+    };
+  }, [outputFiles, uncheckedFiles]);
+
+  const getCheckedState = (node: FileTreeNode): boolean | 'indeterminate' => {
+    if (node.type === 'file') {
+      return !uncheckedFiles.has(node.path);
+    }
+    const paths = folderFiles.get(node.path) ?? [];
+    const unchecked = paths.filter(path => uncheckedFiles.has(path)).length;
+    if (unchecked === 0) return true;
+    return unchecked === paths.length ? false : 'indeterminate';
+  };
+
+  const toggleChecked = (node: FileTreeNode) => {
+    const paths = node.type === 'file' ? [node.path] : folderFiles.get(node.path) ?? [];
+    const check = getCheckedState(node) !== true;
+    const newUnchecked = new Set(uncheckedFiles);
+    paths.forEach(path => {
+      if (check) {
+        newUnchecked.delete(path);
+      } else {
+        newUnchecked.add(path);
+      }
+    });
+    setUncheckedFiles(newUnchecked);
+  };
+
+  const regenerate = () => {
+    if (uncheckedFiles.size === 0) {
+      onRegenerate({ selection: null, deselection: null });
+      return;
+    }
+    // Keep the request small for large projects: send the shorter list
+    const checked = outputFiles.filter(file => !uncheckedFiles.has(file.path)).map(file => file.path);
+    onRegenerate(checked.length <= uncheckedFiles.size
+      ? { selection: checked, deselection: null }
+      : { selection: null, deselection: Array.from(uncheckedFiles) });
+  };
 
   const toggleNode = (path: string) => {
     const newExpanded = new Set(expandedNodes);
@@ -57,10 +210,14 @@ export function FileTree({ fileTree, onFileSelect, selectedFile, stats }: FileTr
 
   const getFileIcon = (node: FileTreeNode) => {
     if (node.type === 'folder') {
-      const isExpanded = expandedNodes.has(node.path);
+      const isExpanded = isFiltered || expandedNodes.has(node.path);
       return isExpanded ? <FolderOpen className="w-4 h-4 text-amber-500" /> : <Folder className="w-4 h-4 text-amber-500" />;
     }
 
+    if (node.binary) {
+      return <Binary className="w-4 h-4 text-slate-300" />;
+    }
+
     // File type specific icons based on extension
     const ext = node.extension?.toLowerCase();
     const iconClass = "w-4 h-4";
@@ -81,9 +238,13 @@ export function FileTree({ fileTree, onFileSelect, selectedFile, stats }: FileTr
   };
 
   const renderTreeNode = (node: FileTreeNode, level = 0) => {
-    const isExpanded = expandedNodes.has(node.path);
+    // Every folder in a filtered tree leads to a match, so expand them all
+    const isExpanded = isFiltered || expandedNodes.has(node.path);
     const isSelected = selectedFile === node.path;
     const hasChildren = node.children && node.children.length > 0;
+    // A collapsed folder stands in for the visible file inside it
+    const isVisible = visibleFile !== null && (visibleFile === node.path ||
+      (node.type === 'folder' && !isExpanded && visibleFile.startsWith(`${node.path}/`)));
 
     return (
       <div key={node.path}>
@@ -91,7 +252,9 @@ export function FileTree({ fileTree, onFileSelect, selectedFile, stats }: FileTr
           className={`flex items-center space-x-2 py-1 px-2 rounded cursor-pointer group ${
             isSelected 
               ? 'bg-blue-50 border-l-2 border-blue-500 text-blue-800' 
-              : 'hover:bg-slate-50 text-slate-700 hover:text-slate-900'
+              : isVisible
+                ? 'bg-slate-100 text-slate-900'
+                : 'hover:bg-slate-50 text-slate-700 hover:text-slate-900'
           }`}
           style={{ paddingLeft: `${level * 16 + 8}px` }}
           onClick={() => {
@@ -114,12 +277,42 @@ export function FileTree({ fileTree, onFileSelect, selectedFile, stats }: FileTr
           {(!hasChildren || node.type === 'file') && (
             <div className="w-4 h-4"></div>
           )}
+
+          {(node.type === 'file' ? node.language : folderFiles.get(node.path)?.length) ? (
+            <span className="flex items-center" onClick={(e) => e.stopPropagation()}>
+              <Checkbox
+                checked={getCheckedState(node)}
+                onCheckedChange={() => toggleChecked(node)}
+                aria-label={`Include ${node.path}`}
+              />
+            </span>
+          ) : (
+            <div className="w-4 h-4"></div>
+          )}
           
           {getFileIcon(node)}
           
-          <span className={`text-sm font-mono ${isSelected ? 'font-medium' : ''}`}>
-            {node.name}
+          <span className={`text-sm font-mono ${isSelected ? 'font-medium' : ''} ${node.binary ? 'text-slate-400' : ''}`}>
+            {renderName(node)}
           </span>
+          {node.binary && (
+            <span className="text-[10px] uppercase tracking-wide text-slate-400 border border-slate-200 rounded px-1">
+              binary
+            </span>
+          )}
+          {node.encoding && node.encoding !== 'utf-8' && (
+            <span
+              className="text-[10px] uppercase tracking-wide text-amber-600 border border-amber-200 rounded px-1"
+              title="Transcoded to UTF-8 for the output"
+            >
+              {node.encoding}
+            </span>
+          )}
+          {node.tokens !== undefined && (
+            <span className="ml-auto pl-2 text-xs text-slate-400 tabular-nums" title={`${node.tokens.toLocaleString()} tokens`}>
+              {formatTokenCount(node.tokens)}
+            </span>
+          )}
         </div>
         
         {node.type === 'folder' && hasChildren && isExpanded && (
@@ -159,14 +352,73 @@ export function FileTree({ fileTree, onFileSelect, selectedFile, stats }: FileTr
         </div>
         <div className="mt-2 text-sm text-slate-500">
           <span>{stats.totalFiles}</span> files • <span>{stats.totalFolders}</span> folders
+          {stats.binaryFiles > 0 && (
+            <> • <span>{stats.binaryFiles}</span> binary</>
+          )}
+          {' '}• <span title={`${stats.totalTokens.toLocaleString()} tokens (${stats.tokenizer})`}>{formatTokenCount(stats.totalTokens)}</span> tokens
         </div>
       </div>
       
+      <div className="px-4 pt-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <Input
+            value={filterQuery}
+            onChange={(e) => setFilterQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setFilterQuery('');
+            }}
+            placeholder="Filter files, e.g. ext:ts button"
+            className="h-9 pl-9 pr-8 font-mono"
+            aria-label="Filter files"
+          />
+          {filterQuery && (
+            <button
+              type="button"
+              onClick={() => setFilterQuery('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+              title="Clear filter"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {filterPaths !== null && (
+        <div className="mx-4 mt-2 rounded px-2 py-1 bg-amber-50 text-xs text-amber-800">
+          Showing {filterPaths.length} {filterPaths.length === 1 ? 'file' : 'files'} with search results
+        </div>
+      )}
+
       <ScrollArea className="h-96 px-4 py-4">
         <div className="space-y-1">
-          {fileTree.map(node => renderTreeNode(node))}
+          {displayedTree.map(node => renderTreeNode(node))}
+          {isFiltered && displayedTree.length === 0 && (
+            <p className="px-2 py-1 text-sm text-slate-500">No files match</p>
+          )}
         </div>
       </ScrollArea>
+
+      <div className="px-6 py-4 border-t border-slate-200 flex items-center justify-between">
+        <div className="text-sm text-slate-500">
+          <div>
+            <span className="font-medium text-slate-700">{selection.files}</span> of {outputFiles.length} files selected
+          </div>
+          <div className="text-xs">
+            {formatTokenCount(selection.tokens)} tokens • {selection.lines.toLocaleString()} lines
+          </div>
+        </div>
+        <Button
+          size="sm"
+          onClick={regenerate}
+          disabled={isRegenerating || selection.files === 0}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${isRegenerating ? 'animate-spin' : ''}`} />
+          Regenerate
+        </Button>
+      </div>
     </div>
   );
 }
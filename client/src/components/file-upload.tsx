@@ -1,12 +1,25 @@
 import { useState, useCallback } from "react";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { ApiError, apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { CloudUpload, Check, AlertTriangle, Shield, CheckCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { ProcessedOutput } from "@shared/schema";
+import { UploadOptionsPanel } from "@/components/upload-options";
+import { SUPPORTED_ARCHIVE_EXTENSIONS, defaultUploadOptions, type ArchiveErrorCode, type ProcessedOutput, type UploadOptions } from "@shared/schema";
+
+const ARCHIVE_ERROR_MESSAGES: Record<ArchiveErrorCode, string> = {
+  UNSUPPORTED_ARCHIVE: 'This file is not a ZIP or tar archive. Its contents did not match any supported archive format.',
+  CORRUPT_ARCHIVE: 'The archive appears to be corrupted or truncated and could not be read.',
+};
+
+function getUploadErrorMessage(error: Error): string {
+  if (error instanceof ApiError && error.code && error.code in ARCHIVE_ERROR_MESSAGES) {
+    return ARCHIVE_ERROR_MESSAGES[error.code as ArchiveErrorCode];
+  }
+  return error.message;
+}
 
 interface FileUploadProps {
   onUploadSuccess: (data: ProcessedOutput) => void;
@@ -25,12 +38,14 @@ export function FileUpload({
 }: FileUploadProps) {
   const [dragActive, setDragActive] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [options, setOptions] = useState<UploadOptions>(defaultUploadOptions);
   const { toast } = useToast();
 
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('options', JSON.stringify(options));
 
       const response = await apiRequest('POST', '/api/upload', formData);
       return response.json();
@@ -45,12 +60,13 @@ export function FileUpload({
       });
     },
     onError: (error: Error) => {
-      onUploadError(error.message);
+      const message = getUploadErrorMessage(error);
+      onUploadError(message);
       setUploadProgress(0);
       onProcessingChange(false);
       toast({
         title: "Upload failed",
-        description: error.message,
+        description: message,
         variant: "destructive",
       });
     }
@@ -87,9 +103,11 @@ export function FileUpload({
   }, []);
 
   const handleFileSelection = (file: File) => {
-    // Validate file type
-    if (!file.type.includes('zip') && !file.name.toLowerCase().endsWith('.zip')) {
-      onUploadError('Please select a ZIP file');
+    // Validate file type by name only; the server sniffs the actual content,
+    // since browsers report inconsistent MIME types for archives
+    const fileName = file.name.toLowerCase();
+    if (!SUPPORTED_ARCHIVE_EXTENSIONS.some(ext => fileName.endsWith(ext))) {
+      onUploadError('Please select a ZIP or tar archive');
       return;
     }
 
@@ -134,7 +152,7 @@ export function FileUpload({
         <div className="text-center mb-6">
           <h2 className="text-2xl font-semibold text-slate-900 mb-2">Upload Your Codebase</h2>
           <p className="text-slate-600 max-w-2xl mx-auto">
-            Drop your ZIP archive here or click to select. We'll extract and format your entire project structure for easy AI consumption.
+            Drop your ZIP or tar archive here or click to select. We'll extract and format your entire project structure for easy AI consumption.
           </p>
         </div>
 
@@ -152,7 +170,7 @@ export function FileUpload({
         >
           <input
             type="file"
-            accept=".zip"
+            accept={SUPPORTED_ARCHIVE_EXTENSIONS.join(',')}
             onChange={handleFileInputChange}
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
             disabled={isProcessing}
@@ -165,7 +183,7 @@ export function FileUpload({
               <CloudUpload className="w-8 h-8 text-blue-600" />
             </div>
             <div>
-              <p className="text-lg font-medium text-slate-900 mb-1">Drop your ZIP file here</p>
+              <p className="text-lg font-medium text-slate-900 mb-1">Drop your archive here</p>
               <p className="text-slate-500">or <span className="text-blue-600 font-medium">click to browse</span></p>
             </div>
             <div className="flex items-center space-x-4 text-sm text-slate-400">
@@ -175,7 +193,7 @@ export function FileUpload({
               </span>
               <span className="flex items-center">
                 <CheckCircle className="w-4 h-4 mr-1" />
-                ZIP files only
+                ZIP, TAR, TAR.GZ, TAR.BZ2
               </span>
               <span className="flex items-center">
                 <Shield className="w-4 h-4 mr-1" />
@@ -185,6 +203,8 @@ export function FileUpload({
           </div>
         </div>
 
+        <UploadOptionsPanel options={options} onChange={setOptions} disabled={isProcessing} />
+
         {/* Upload Progress */}
         {uploadMutation.isPending && uploadProgress < 90 && (
           <div className="mt-6">
@@ -224,7 +244,7 @@ export function FileUpload({
                   <div className="mt-3 space-y-1 text-sm">
                     <div className="flex items-center">
                       <CheckCircle className="w-3 h-3 mr-2" />
-                      Ensure your ZIP file is not corrupted
+                      Ensure your archive is not corrupted
                     </div>
                     <div className="flex items-center">
                       <CheckCircle className="w-3 h-3 mr-2" />
@@ -232,7 +252,7 @@ export function FileUpload({
                     </div>
                     <div className="flex items-center">
                       <CheckCircle className="w-3 h-3 mr-2" />
-                      Only ZIP archives are supported
+                      Only ZIP and tar archives are supported
                     </div>
                   </div>
                 </div>
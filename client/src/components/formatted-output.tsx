@@ -1,30 +1,138 @@
-import { useState } from "react";
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { Copy, Download, Check } from "lucide-react";
-import type { ProcessingStats } from "@shared/schema";
+import { formatTokenCount } from "@/lib/utils";
+import { findFileSections, findSectionAt } from "@/lib/output-sections";
+import { countMatchesByFile, searchLines, type FileMatchCount, type SearchMatch, type SearchOptions } from "@/lib/output-search";
+import { OutputViewer, type OutputViewerHandle } from "@/components/output-viewer";
+import { OutputSearch } from "@/components/output-search";
+import { useSyntaxHighlighting, type LineRange } from "@/hooks/use-syntax-highlighting";
+import type { OutputPart, ProcessingStats } from "@shared/schema";
 
 interface FormattedOutputProps {
   formattedContent: string;
+  parts?: OutputPart[];
   stats: ProcessingStats;
   selectedFile: string | null;
+  // Reports the file whose section is at the top of the viewer while scrolling
+  onVisibleFileChange?: (filePath: string | null) => void;
+  // Reports the files with search hits, or null when no search is active
+  onSearchFilesChange?: (filePaths: string[] | null) => void;
 }
 
-export function FormattedOutput({ formattedContent, stats, selectedFile }: FormattedOutputProps) {
-  const [copied, setCopied] = useState(false);
+export function FormattedOutput({
+  formattedContent,
+  parts,
+  stats,
+  selectedFile,
+  onVisibleFileChange,
+  onSearchFilesChange
+}: FormattedOutputProps) {
+  // 0 is the whole output, k the k-th part
+  const [copied, setCopied] = useState<number | null>(null);
   const { toast } = useToast();
 
-  const copyToClipboard = async () => {
+  const lines = useMemo(() => formattedContent.split('\n'), [formattedContent]);
+  const sections = useMemo(() => findFileSections(lines), [lines]);
+  const selectedSection = useMemo(
+    () => sections.find(section => section.path === selectedFile),
+    [sections, selectedFile]
+  );
+
+  const [visibleRange, setVisibleRange] = useState<LineRange>({ first: 0, last: 0 });
+  const highlightedLines = useSyntaxHighlighting(lines, sections, visibleRange);
+
+  const viewerRef = useRef<OutputViewerHandle>(null);
+  const visibleFileRef = useRef<string | null>(null);
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({ regex: false, caseSensitive: false });
+  const [currentMatch, setCurrentMatch] = useState(0);
+  // Searching large outputs can take a moment; keep typing responsive
+  const deferredQuery = useDeferredValue(searchQuery);
+
+  const searchResult = useMemo(
+    () => searchLines(lines, deferredQuery, searchOptions),
+    [lines, deferredQuery, searchOptions]
+  );
+  const fileMatches = useMemo(
+    () => countMatchesByFile(searchResult.matches, sections),
+    [searchResult, sections]
+  );
+  const matchesByLine = useMemo(() => {
+    const map = new Map<number, SearchMatch[]>();
+    searchResult.matches.forEach(match => {
+      const lineMatches = map.get(match.line);
+      if (lineMatches) {
+        lineMatches.push(match);
+      } else {
+        map.set(match.line, [match]);
+      }
+    });
+    return map;
+  }, [searchResult]);
+
+  // A new search starts again from its first match
+  useEffect(() => {
+    setCurrentMatch(0);
+  }, [searchResult]);
+
+  // Bring the current match to the middle of the viewer
+  useEffect(() => {
+    const match = searchResult.matches[currentMatch];
+    if (match) {
+      viewerRef.current?.scrollToLine(match.line, 'center');
+    }
+  }, [searchResult, currentMatch]);
+
+  useEffect(() => {
+    const isSearching = deferredQuery !== '' && !searchResult.error;
+    onSearchFilesChange?.(isSearching ? fileMatches.map(file => file.path) : null);
+  }, [fileMatches]);
+
+  const navigateMatches = (direction: 1 | -1) => {
+    const total = searchResult.matches.length;
+    if (total > 0) {
+      setCurrentMatch(index => (index + direction + total) % total);
+    }
+  };
+
+  const handleSearchFileClick = (file: FileMatchCount) => {
+    setCurrentMatch(file.firstMatch);
+    // Jump again even when that match is already the current one
+    viewerRef.current?.scrollToLine(searchResult.matches[file.firstMatch].line, 'center');
+  };
+
+  // Bring the selected file's section to the top of the viewer
+  useEffect(() => {
+    if (selectedSection) {
+      viewerRef.current?.scrollToLine(selectedSection.start);
+    }
+  }, [selectedSection]);
+
+  const handleTopLineChange = (line: number) => {
+    const index = findSectionAt(sections, line);
+    const visibleFile = index === -1 ? null : sections[index].path;
+    if (visibleFile !== visibleFileRef.current) {
+      visibleFileRef.current = visibleFile;
+      onVisibleFileChange?.(visibleFile);
+    }
+  };
+
+  const copyToClipboard = async (content = formattedContent, part = 0) => {
     try {
-      await navigator.clipboard.writeText(formattedContent);
-      setCopied(true);
+      await navigator.clipboard.writeText(content);
+      setCopied(part);
       toast({
         title: "Copied to clipboard!",
-        description: "The formatted content has been copied to your clipboard.",
+        description: part
+          ? `Part ${part} of ${parts?.length} has been copied to your clipboard.`
+          : "The formatted content has been copied to your clipboard.",
       });
       
-      setTimeout(() => setCopied(false), 2000);
+      setTimeout(() => setCopied(null), 2000);
     } catch (error) {
       toast({
         title: "Copy failed",
@@ -34,12 +142,12 @@ export function FormattedOutput({ formattedContent, stats, selectedFile }: Forma
     }
   };
 
-  const downloadAsText = () => {
-    const blob = new Blob([formattedContent], { type: 'text/plain' });
+  const downloadAsText = (content = formattedContent, filename = 'codebase-formatted.txt') => {
+    const blob = new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'codebase-formatted.txt';
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -51,75 +159,6 @@ export function FormattedOutput({ formattedContent, stats, selectedFile }: Forma
     });
   };
 
-  // Format the content for display with syntax highlighting
-  const formatContentForDisplay = (content: string) => {
-    return content.split('\n').map((line, index) => {
-      // Simple syntax highlighting for display
-      let formattedLine = line;
-      
-      // Headers
-      if (line.startsWith('# ')) {
-        return (
-          <div key={index} className="text-emerald-400 font-medium">
-            <span className="text-slate-400"># </span>
-            {line.substring(2)}
-          </div>
-        );
-      }
-      
-      if (line.startsWith('## ')) {
-        return (
-          <div key={index} className="text-blue-400 font-medium">
-            {line}
-          </div>
-        );
-      }
-      
-      if (line.startsWith('### ')) {
-        return (
-          <div key={index} className="text-emerald-400 border-b border-slate-700 pb-1">
-            <span className="text-slate-400">### </span>
-            {line.substring(4)}
-          </div>
-        );
-      }
-      
-      // Code block markers
-      if (line.startsWith('```')) {
-        return (
-          <div key={index} className="text-slate-500 text-xs">
-            {line}
-          </div>
-        );
-      }
-      
-      // File tree structure
-      if (line.includes('├──') || line.includes('└──')) {
-        const parts = line.split(/([├└]──)/);
-        return (
-          <div key={index} className="text-slate-400">
-            {parts.map((part, partIndex) => {
-              if (part.includes('├──') || part.includes('└──')) {
-                return <span key={partIndex} className="text-amber-300">{part}</span>;
-              } else if (part.includes('📁')) {
-                return <span key={partIndex} className="text-amber-300">{part}</span>;
-              } else if (part.includes('📄')) {
-                return <span key={partIndex} className="text-slate-400">{part}</span>;
-              }
-              return <span key={partIndex}>{part}</span>;
-            })}
-          </div>
-        );
-      }
-      
-      return (
-        <div key={index} className="text-slate-300">
-          {line || '\u00A0'}
-        </div>
-      );
-    });
-  };
-
   return (
     <div className="bg-white rounded-xl shadow-sm border border-slate-200">
       <div className="px-6 py-4 border-b border-slate-200">
@@ -130,14 +169,14 @@ export function FormattedOutput({ formattedContent, stats, selectedFile }: Forma
           </div>
           <div className="flex items-center space-x-2">
             <Button
-              onClick={copyToClipboard}
+              onClick={() => copyToClipboard()}
               className={`font-medium transition-colors ${
-                copied 
+                copied === 0
                   ? 'bg-emerald-600 hover:bg-emerald-700' 
                   : 'bg-blue-600 hover:bg-blue-700'
               }`}
             >
-              {copied ? (
+              {copied === 0 ? (
                 <>
                   <Check className="w-4 h-4 mr-2" />
                   Copied!
@@ -152,7 +191,7 @@ export function FormattedOutput({ formattedContent, stats, selectedFile }: Forma
             <Button
               variant="ghost"
               size="sm"
-              onClick={downloadAsText}
+              onClick={() => downloadAsText()}
               className="text-slate-400 hover:text-slate-600"
               title="Download as Text"
             >
@@ -163,15 +202,79 @@ export function FormattedOutput({ formattedContent, stats, selectedFile }: Forma
       </div>
       
       <div className="p-6">
-        {/* Output Preview */}
-        <div className="bg-slate-900 rounded-lg p-6 overflow-auto max-h-screen">
-          <div className="font-mono text-sm space-y-1">
-            {formatContentForDisplay(formattedContent)}
+        {/* Parts, when the output was split to fit a size limit */}
+        {parts && parts.length > 0 && (
+          <div className="mb-6">
+            <h4 className="text-sm font-medium text-slate-700 mb-2">
+              Split into {parts.length} {parts.length === 1 ? 'part' : 'parts'}
+            </h4>
+            <div className="grid sm:grid-cols-2 md:grid-cols-3 gap-2">
+              {parts.map((part, index) => {
+                const number = index + 1;
+                return (
+                  <div
+                    key={number}
+                    className="flex items-center justify-between bg-slate-50 rounded-lg px-3 py-2"
+                  >
+                    <div>
+                      <div className="text-sm font-medium text-slate-900">Part {number} of {parts.length}</div>
+                      <div className="text-xs text-slate-500">
+                        {formatTokenCount(part.tokens)} tokens · {part.content.length.toLocaleString()} chars
+                      </div>
+                    </div>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => copyToClipboard(part.content, number)}
+                        className="text-slate-400 hover:text-slate-600"
+                        title={`Copy part ${number}`}
+                      >
+                        {copied === number ? <Check className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => downloadAsText(part.content, `codebase-formatted-part-${number}-of-${parts.length}.txt`)}
+                        className="text-slate-400 hover:text-slate-600"
+                        title={`Download part ${number}`}
+                      >
+                        <Download className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
           </div>
-        </div>
+        )}
+
+        <OutputSearch
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          options={searchOptions}
+          onOptionsChange={setSearchOptions}
+          result={searchResult}
+          currentMatch={currentMatch}
+          onNavigate={navigateMatches}
+          fileMatches={fileMatches}
+          onFileClick={handleSearchFileClick}
+        />
+
+        {/* Output Preview */}
+        <OutputViewer
+          ref={viewerRef}
+          lines={lines}
+          highlightRange={selectedSection}
+          highlightedLines={highlightedLines}
+          searchMatches={matchesByLine}
+          currentMatch={searchResult.matches[currentMatch]}
+          onTopLineChange={handleTopLineChange}
+          onVisibleRangeChange={setVisibleRange}
+        />
 
         {/* Statistics */}
-        <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="mt-6 grid grid-cols-2 md:grid-cols-5 gap-4">
           <div className="bg-slate-50 rounded-lg p-4 text-center">
             <div className="text-2xl font-bold text-slate-900">{stats.totalFiles}</div>
             <div className="text-sm text-slate-500">Total Files</div>
@@ -180,6 +283,10 @@ export function FormattedOutput({ formattedContent, stats, selectedFile }: Forma
             <div className="text-2xl font-bold text-slate-900">{stats.linesOfCode.toLocaleString()}</div>
             <div className="text-sm text-slate-500">Lines of Code</div>
           </div>
+          <div className="bg-slate-50 rounded-lg p-4 text-center" title={`Estimated with ${stats.tokenizer}`}>
+            <div className="text-2xl font-bold text-slate-900">{stats.totalTokens.toLocaleString()}</div>
+            <div className="text-sm text-slate-500">Tokens</div>
+          </div>
           <div className="bg-slate-50 rounded-lg p-4 text-center">
             <div className="text-2xl font-bold text-slate-900">{stats.fileSize}</div>
             <div className="text-sm text-slate-500">Archive Size</div>
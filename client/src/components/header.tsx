@@ -1,4 +1,13 @@
+import { Link, useLocation } from "wouter";
+
+const NAV_LINKS = [
+  { href: '/', label: 'Upload' },
+  { href: '/history', label: 'History' },
+];
+
 export function Header() {
+  const [location] = useLocation();
+
   return (
     <header className="bg-white border-b border-slate-200 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -14,6 +23,21 @@ export function Header() {
               <p className="text-sm text-slate-500">Extract & format your codebase for AI</p>
             </div>
           </div>
+          <nav className="flex items-center space-x-1">
+            {NAV_LINKS.map(link => (
+              <Link
+                key={link.href}
+                href={link.href}
+                className={`px-3 py-2 rounded-md text-sm font-medium ${
+                  location === link.href
+                    ? 'bg-slate-100 text-slate-900'
+                    : 'text-slate-500 hover:text-slate-900 hover:bg-slate-50'
+                }`}
+              >
+                {link.label}
+              </Link>
+            ))}
+          </nav>
         </div>
       </div>
     </header>
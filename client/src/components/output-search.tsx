@@ -0,0 +1,145 @@
+import type { KeyboardEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Toggle } from "@/components/ui/toggle";
+import { ChevronUp, ChevronDown, Search, X } from "lucide-react";
+import type { FileMatchCount, SearchOptions, SearchResult } from "@/lib/output-search";
+
+interface OutputSearchProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  options: SearchOptions;
+  onOptionsChange: (options: SearchOptions) => void;
+  result: SearchResult;
+  // Index of the current match in result.matches
+  currentMatch: number;
+  onNavigate: (direction: 1 | -1) => void;
+  fileMatches: FileMatchCount[];
+  onFileClick: (file: FileMatchCount) => void;
+}
+
+export function OutputSearch({
+  query,
+  onQueryChange,
+  options,
+  onOptionsChange,
+  result,
+  currentMatch,
+  onNavigate,
+  fileMatches,
+  onFileClick
+}: OutputSearchProps) {
+  const total = result.matches.length;
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' && total > 0) {
+      event.preventDefault();
+      onNavigate(event.shiftKey ? -1 : 1);
+    } else if (event.key === 'Escape') {
+      onQueryChange('');
+    }
+  };
+
+  const getCountLabel = () => {
+    if (result.error) return 'Invalid pattern';
+    if (total === 0) return 'No results';
+    return `${currentMatch + 1} of ${total.toLocaleString()}${result.truncated ? '+' : ''}`;
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <Input
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search output"
+            className={`h-9 pl-9 pr-8 font-mono ${result.error ? 'border-red-400 focus-visible:ring-red-400' : ''}`}
+            aria-label="Search output"
+          />
+          {query && (
+            <button
+              type="button"
+              onClick={() => onQueryChange('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+              title="Clear search"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <Toggle
+          size="sm"
+          variant="outline"
+          pressed={options.caseSensitive}
+          onPressedChange={(caseSensitive) => onOptionsChange({ ...options, caseSensitive })}
+          className="font-mono text-xs"
+          title="Match case"
+        >
+          Aa
+        </Toggle>
+        <Toggle
+          size="sm"
+          variant="outline"
+          pressed={options.regex}
+          onPressedChange={(regex) => onOptionsChange({ ...options, regex })}
+          className="font-mono text-xs"
+          title="Use regular expression"
+        >
+          .*
+        </Toggle>
+        {query && (
+          <span
+            className={`text-xs tabular-nums whitespace-nowrap ${result.error ? 'text-red-600' : 'text-slate-500'}`}
+            title={result.error}
+          >
+            {getCountLabel()}
+          </span>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onNavigate(-1)}
+          disabled={total === 0}
+          className="p-1.5 text-slate-400 hover:text-slate-600"
+          title="Previous match (Shift+Enter)"
+        >
+          <ChevronUp className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onNavigate(1)}
+          disabled={total === 0}
+          className="p-1.5 text-slate-400 hover:text-slate-600"
+          title="Next match (Enter)"
+        >
+          <ChevronDown className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {result.error && (
+        <p className="mt-1 text-xs text-red-600">{result.error}</p>
+      )}
+
+      {/* Hits per file; clicking one jumps to its first match */}
+      {fileMatches.length > 0 && (
+        <div className="mt-2 max-h-32 overflow-auto rounded-lg bg-slate-50 py-1">
+          {fileMatches.map(file => (
+            <button
+              key={file.path}
+              type="button"
+              onClick={() => onFileClick(file)}
+              className="flex w-full items-center justify-between px-3 py-0.5 text-left hover:bg-slate-100"
+            >
+              <span className="truncate font-mono text-xs text-slate-700">{file.path}</span>
+              <span className="ml-2 text-xs text-slate-500 tabular-nums">{file.count.toLocaleString()}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
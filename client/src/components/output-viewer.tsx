@@ -0,0 +1,238 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState, type ReactNode, type UIEvent } from "react";
+import type { LineRange } from "@/hooks/use-syntax-highlighting";
+import type { SearchMatch } from "@/lib/output-search";
+import "highlight.js/styles/github-dark.css";
+
+// Every line is one row of this height, so visible rows follow from scrollTop
+const LINE_HEIGHT = 20;
+// Rows rendered above and below the viewport to avoid blank edges while scrolling
+const OVERSCAN = 30;
+// Matches the viewer's p-6
+const PADDING = 24;
+
+export interface OutputViewerHandle {
+  // Scrolls so the line is at the top (or the middle) of the viewer
+  scrollToLine: (line: number, align?: 'top' | 'center') => void;
+}
+
+interface OutputViewerProps {
+  lines: string[];
+  // Line range [start, end) to highlight, e.g. the selected file's section
+  highlightRange?: { start: number; end: number };
+  // Syntax-highlighted HTML by line index; other lines are styled by kind
+  highlightedLines?: Map<number, string>;
+  // Search matches by line index, drawn as marks over the plain line text
+  searchMatches?: Map<number, SearchMatch[]>;
+  currentMatch?: SearchMatch;
+  // Reports the first line at the top of the viewer while scrolling
+  onTopLineChange?: (line: number) => void;
+  // Reports the lines currently rendered (viewport plus overscan)
+  onVisibleRangeChange?: (range: LineRange) => void;
+}
+
+// Style a line for display: headings, fences, XML tags and tree rows
+function renderLine(line: string): ReactNode {
+  // Headers
+  if (line.startsWith('# ')) {
+    return (
+      <div className="text-emerald-400 font-medium">
+        <span className="text-slate-400"># </span>
+        {line.substring(2)}
+      </div>
+    );
+  }
+
+  if (line.startsWith('## ')) {
+    return (
+      <div className="text-blue-400 font-medium">
+        {line}
+      </div>
+    );
+  }
+
+  if (line.startsWith('### ')) {
+    return (
+      <div className="text-emerald-400 border-b border-slate-700">
+        <span className="text-slate-400">### </span>
+        {line.substring(4)}
+      </div>
+    );
+  }
+
+  // XML output: file and tree elements
+  if (line.startsWith('<file ') || line.startsWith('<tree>')) {
+    return (
+      <div className="text-emerald-400 border-b border-slate-700">
+        {line}
+      </div>
+    );
+  }
+
+  if (line.startsWith('</file>') || line.startsWith('</tree>') || line.startsWith('<!-- ')) {
+    return (
+      <div className="text-slate-500 text-xs">
+        {line}
+      </div>
+    );
+  }
+
+  // Code block markers
+  if (line.startsWith('```')) {
+    return (
+      <div className="text-slate-500 text-xs">
+        {line}
+      </div>
+    );
+  }
+
+  // File tree structure
+  if (line.includes('├──') || line.includes('└──')) {
+    const parts = line.split(/([├└]──)/);
+    return (
+      <div className="text-slate-400">
+        {parts.map((part, partIndex) => {
+          if (part.includes('├──') || part.includes('└──')) {
+            return <span key={partIndex} className="text-amber-300">{part}</span>;
+          } else if (part.includes('📁')) {
+            return <span key={partIndex} className="text-amber-300">{part}</span>;
+          } else if (part.includes('📄')) {
+            return <span key={partIndex} className="text-slate-400">{part}</span>;
+          }
+          return <span key={partIndex}>{part}</span>;
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-slate-300">
+      {line || '\u00A0'}
+    </div>
+  );
+}
+
+// Plain line text with the search matches marked
+function renderMatches(line: string, matches: SearchMatch[], currentMatch?: SearchMatch): ReactNode {
+  const pieces: ReactNode[] = [];
+  let position = 0;
+  matches.forEach((match, index) => {
+    if (match.start > position) {
+      pieces.push(line.substring(position, match.start));
+    }
+    const isCurrent = match === currentMatch;
+    pieces.push(
+      <mark
+        key={index}
+        className={`rounded-sm ${isCurrent ? 'bg-amber-400 text-slate-900' : 'bg-amber-200/30 text-inherit'}`}
+      >
+        {line.substring(match.start, match.end)}
+      </mark>
+    );
+    position = match.end;
+  });
+  pieces.push(line.substring(position));
+
+  return (
+    <div className="text-slate-300">
+      {pieces}
+    </div>
+  );
+}
+
+/**
+ * Read-only view of the formatted output that only mounts the rows in and
+ * near the viewport, so outputs with hundreds of thousands of lines stay
+ * responsive. Lines never wrap; long ones scroll horizontally.
+ */
+export const OutputViewer = forwardRef<OutputViewerHandle, OutputViewerProps>(
+  function OutputViewer({
+    lines,
+    highlightRange,
+    highlightedLines,
+    searchMatches,
+    currentMatch,
+    onTopLineChange,
+    onVisibleRangeChange
+  }, ref) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const topLineRef = useRef(-1);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(0);
+
+    useImperativeHandle(ref, () => ({
+      scrollToLine: (line, align = 'top') => {
+        const container = containerRef.current;
+        if (!container) return;
+        const offset = align === 'center' ? (container.clientHeight - LINE_HEIGHT) / 2 : 0;
+        container.scrollTo({ top: PADDING + line * LINE_HEIGHT - offset, behavior: 'smooth' });
+      }
+    }), []);
+
+    useEffect(() => {
+      const container = containerRef.current;
+      if (!container) return;
+
+      setViewportHeight(container.clientHeight);
+      const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+      observer.observe(container);
+      return () => observer.disconnect();
+    }, []);
+
+    const handleScroll = (event: UIEvent<HTMLDivElement>) => {
+      const top = event.currentTarget.scrollTop;
+      setScrollTop(top);
+
+      // One pixel of slack so a line scrolled exactly to the top counts
+      const topLine = Math.max(0, Math.floor((top - PADDING + 1) / LINE_HEIGHT));
+      if (topLine !== topLineRef.current) {
+        topLineRef.current = topLine;
+        onTopLineChange?.(topLine);
+      }
+    };
+
+    const first = Math.max(0, Math.floor((scrollTop - PADDING) / LINE_HEIGHT) - OVERSCAN);
+    const last = Math.min(lines.length, Math.ceil((scrollTop + viewportHeight) / LINE_HEIGHT) + OVERSCAN);
+
+    useEffect(() => {
+      onVisibleRangeChange?.({ first, last });
+    }, [first, last]);
+
+    const rows: ReactNode[] = [];
+    for (let index = first; index < last; index++) {
+      const lineMatches = searchMatches?.get(index);
+      const isHighlighted = highlightRange !== undefined &&
+        index >= highlightRange.start && index < highlightRange.end;
+      rows.push(
+        <div
+          key={index}
+          className={`absolute left-0 min-w-full px-6 whitespace-pre ${
+            isHighlighted ? 'bg-blue-500/10 border-l-2 border-blue-400 pl-[22px]' : ''
+          }`}
+          style={{ top: PADDING + index * LINE_HEIGHT, height: LINE_HEIGHT }}
+        >
+          {lineMatches ? renderMatches(lines[index], lineMatches, currentMatch) : highlightedLines?.has(index) ? (
+            <div
+              className="text-slate-300"
+              dangerouslySetInnerHTML={{ __html: highlightedLines.get(index) || '&nbsp;' }}
+            />
+          ) : renderLine(lines[index])}
+        </div>
+      );
+    }
+
+    return (
+      <div
+        ref={containerRef}
+        onScroll={handleScroll}
+        className="bg-slate-900 rounded-lg overflow-auto max-h-screen"
+      >
+        <div
+          className="relative font-mono text-sm leading-5"
+          style={{ height: lines.length * LINE_HEIGHT + 2 * PADDING }}
+        >
+          {rows}
+        </div>
+      </div>
+    );
+  }
+);
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronDown, ChevronRight, SlidersHorizontal } from "lucide-react";
+import type { OutputFormatName, SplitOptions, UploadOptions } from "@shared/schema";
+
+interface UploadOptionsPanelProps {
+  options: UploadOptions;
+  onChange: (options: UploadOptions) => void;
+  disabled?: boolean;
+}
+
+function parsePatterns(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+}
+
+interface PatternFieldProps {
+  id: string;
+  label: string;
+  patterns: string[];
+  placeholder: string;
+  onChange: (patterns: string[]) => void;
+  disabled: boolean;
+}
+
+function PatternField({ id, label, patterns, placeholder, onChange, disabled }: PatternFieldProps) {
+  // Raw text is kept locally so blank lines survive while typing
+  const [text, setText] = useState(patterns.join('\n'));
+
+  return (
+    <div>
+      <Label htmlFor={id} className="text-slate-700">{label}</Label>
+      <Textarea
+        id={id}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange(parsePatterns(e.target.value));
+        }}
+        placeholder={placeholder}
+        className="mt-2 font-mono text-sm"
+        disabled={disabled}
+      />
+    </div>
+  );
+}
+
+interface FormatFieldProps {
+  format: OutputFormatName;
+  onChange: (format: OutputFormatName) => void;
+  disabled: boolean;
+}
+
+function FormatField({ format, onChange, disabled }: FormatFieldProps) {
+  return (
+    <div className="mt-4">
+      <Label htmlFor="output-format" className="text-slate-700">Output format</Label>
+      <Select value={format} onValueChange={onChange} disabled={disabled}>
+        <SelectTrigger id="output-format" className="w-48 mt-2">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="markdown">Markdown</SelectItem>
+          <SelectItem value="xml">XML tags</SelectItem>
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-slate-500 mt-2">
+        XML wraps each file in a <code>{'<file path="..." language="...">'}</code> element, which survives files that contain code fences.
+      </p>
+    </div>
+  );
+}
+
+interface SplitFieldProps {
+  split: SplitOptions | null | undefined;
+  onChange: (split: SplitOptions | undefined) => void;
+  disabled: boolean;
+}
+
+function SplitField({ split, onChange, disabled }: SplitFieldProps) {
+  const [limit, setLimit] = useState(split ? String(split.limit) : '');
+  const [unit, setUnit] = useState<SplitOptions['unit']>(split?.unit ?? 'tokens');
+
+  // An empty or non-positive limit means the output is not split
+  const update = (nextLimit: string, nextUnit: SplitOptions['unit']) => {
+    const value = parseInt(nextLimit, 10);
+    onChange(value > 0 ? { limit: value, unit: nextUnit } : undefined);
+  };
+
+  return (
+    <div className="mt-4">
+      <Label htmlFor="split-limit" className="text-slate-700">Split output into parts of at most</Label>
+      <div className="flex items-center space-x-2 mt-2">
+        <Input
+          id="split-limit"
+          type="number"
+          min={200}
+          step={1000}
+          value={limit}
+          onChange={(e) => {
+            setLimit(e.target.value);
+            update(e.target.value, unit);
+          }}
+          placeholder="No limit"
+          className="w-40"
+          disabled={disabled}
+        />
+        <Select
+          value={unit}
+          onValueChange={(value: SplitOptions['unit']) => {
+            setUnit(value);
+            update(limit, value);
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="tokens">tokens</SelectItem>
+            <SelectItem value="characters">characters</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-slate-500 mt-2">
+        Each part gets a "Part k of N" header and fits the limit; files are only split when one alone is larger than a part.
+      </p>
+    </div>
+  );
+}
+
+export function UploadOptionsPanel({ options, onChange, disabled = false }: UploadOptionsPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  const activeRules = options.include.length + options.exclude.length +
+    options.dotPaths.allow.length + options.dotPaths.deny.length;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-6">
+      <CollapsibleTrigger
+        className="flex items-center space-x-2 text-sm font-medium text-slate-600 hover:text-slate-900"
+        disabled={disabled}
+      >
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        <SlidersHorizontal className="w-4 h-4" />
+        <span>Filter and output options</span>
+        {activeRules > 0 && (
+          <span className="text-xs bg-blue-100 text-blue-700 rounded-full px-2 py-0.5">
+            {activeRules} {activeRules === 1 ? 'rule' : 'rules'}
+          </span>
+        )}
+      </CollapsibleTrigger>
+
+      <CollapsibleContent>
+        <div className="grid md:grid-cols-2 gap-4 mt-4">
+          <PatternField
+            id="include-patterns"
+            label="Include patterns"
+            patterns={options.include}
+            placeholder={'src/**/*.ts\n!**/*.test.ts'}
+            onChange={(include) => onChange({ ...options, include })}
+            disabled={disabled}
+          />
+          <PatternField
+            id="exclude-patterns"
+            label="Exclude patterns"
+            patterns={options.exclude}
+            placeholder={'**/fixtures\n**/*.snap'}
+            onChange={(exclude) => onChange({ ...options, exclude })}
+            disabled={disabled}
+          />
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          One glob per line, relative to the project root. Prefix a pattern with <code>!</code> to negate it; the last matching pattern wins.
+        </p>
+
+        <div className="grid md:grid-cols-2 gap-4 mt-4">
+          <PatternField
+            id="dot-paths-allow"
+            label="Show dot-files and folders"
+            patterns={options.dotPaths.allow}
+            placeholder={'.vscode\n.env.local'}
+            onChange={(allow) => onChange({ ...options, dotPaths: { ...options.dotPaths, allow } })}
+            disabled={disabled}
+          />
+          <PatternField
+            id="dot-paths-deny"
+            label="Hide dot-files and folders"
+            patterns={options.dotPaths.deny}
+            placeholder={'.github\n.eslintrc.*'}
+            onChange={(deny) => onChange({ ...options, dotPaths: { ...options.dotPaths, deny } })}
+            disabled={disabled}
+          />
+        </div>
+        <p className="text-xs text-slate-500 mt-2">
+          Config such as <code>.github</code>, <code>.eslintrc.*</code> and <code>.env.example</code> is shown by default; other dot-paths (<code>.env</code>, editor folders) are hidden. VCS metadata and build caches (<code>.git</code>, <code>.next</code>, <code>.tox</code>) are always skipped. Match single names, one per line.
+        </p>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <FormatField
+            format={options.format}
+            onChange={(format) => onChange({ ...options, format })}
+            disabled={disabled}
+          />
+          <SplitField
+            split={options.split}
+            onChange={(split) => onChange({ ...options, split })}
+            disabled={disabled}
+          />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
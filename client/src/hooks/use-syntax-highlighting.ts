@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from "react";
+import { findSectionAt, type OutputSection } from "@/lib/output-sections";
+import type { HighlightRequest, HighlightResponse } from "@/lib/highlight";
+
+// Larger blocks stay plain; highlighting them costs more than it helps
+const MAX_HIGHLIGHT_LENGTH = 500_000;
+
+export interface LineRange {
+  first: number;
+  last: number;
+}
+
+/**
+ * Highlights fenced code blocks in a Web Worker, only once a block scrolls
+ * into view. Returns highlighted HTML by output line index; lines missing
+ * from the map are shown plain.
+ */
+export function useSyntaxHighlighting(lines: string[], sections: OutputSection[], visibleRange: LineRange): Map<number, string> {
+  const [highlighted, setHighlighted] = useState<Map<number, string>>(new Map());
+  const workerRef = useRef<Worker | null>(null);
+  const generationRef = useRef(0);
+  // Sections already sent to the worker, by start line
+  const requestedRef = useRef(new Set<number>());
+
+  // A new output invalidates everything highlighted so far
+  useEffect(() => {
+    generationRef.current++;
+    requestedRef.current = new Set();
+    setHighlighted(new Map());
+  }, [lines]);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../lib/highlight.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<HighlightResponse>) => {
+      const { generation, start, lines: html } = event.data;
+      if (generation !== generationRef.current) return;
+
+      setHighlighted(previous => {
+        const next = new Map(previous);
+        html.forEach((line, index) => next.set(start + index, line));
+        return next;
+      });
+    };
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!worker) return;
+
+    for (let i = Math.max(0, findSectionAt(sections, visibleRange.first)); i < sections.length; i++) {
+      const section = sections[i];
+      if (section.start >= visibleRange.last) break;
+      if (!section.code || requestedRef.current.has(section.start)) continue;
+
+      requestedRef.current.add(section.start);
+      const code = lines.slice(section.code.start, section.code.end).join('\n');
+      if (code.length > MAX_HIGHLIGHT_LENGTH) continue;
+
+      const request: HighlightRequest = {
+        generation: generationRef.current,
+        start: section.code.start,
+        language: section.code.language,
+        code
+      };
+      worker.postMessage(request);
+    }
+  }, [lines, sections, visibleRange]);
+
+  return highlighted;
+}
@@ -0,0 +1,17 @@
+// Messages exchanged with highlight.worker.ts
+
+export interface HighlightRequest {
+  // Output render the request belongs to; stale responses are dropped
+  generation: number;
+  // Output line index of the block's first line
+  start: number;
+  language: string;
+  code: string;
+}
+
+export interface HighlightResponse {
+  generation: number;
+  start: number;
+  // One self-contained HTML fragment per line of the block
+  lines: string[];
+}
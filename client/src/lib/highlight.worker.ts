@@ -0,0 +1,69 @@
+import hljs from "highlight.js/lib/common";
+import clojure from "highlight.js/lib/languages/clojure";
+import cmake from "highlight.js/lib/languages/cmake";
+import dockerfile from "highlight.js/lib/languages/dockerfile";
+import dos from "highlight.js/lib/languages/dos";
+import groovy from "highlight.js/lib/languages/groovy";
+import haskell from "highlight.js/lib/languages/haskell";
+import latex from "highlight.js/lib/languages/latex";
+import powershell from "highlight.js/lib/languages/powershell";
+import scala from "highlight.js/lib/languages/scala";
+import type { HighlightRequest, HighlightResponse } from "./highlight";
+
+// Languages the server emits that the common bundle lacks
+hljs.registerLanguage('clojure', clojure);
+hljs.registerLanguage('cmake', cmake);
+hljs.registerLanguage('dockerfile', dockerfile);
+hljs.registerLanguage('dos', dos);
+hljs.registerLanguage('groovy', groovy);
+hljs.registerLanguage('haskell', haskell);
+hljs.registerLanguage('latex', latex);
+hljs.registerLanguage('powershell', powershell);
+hljs.registerLanguage('scala', scala);
+
+// Fence languages whose highlight.js name differs
+const LANGUAGE_ALIASES: { [key: string]: string } = {
+  'batch': 'dos',
+  'starlark': 'python',
+  'fish': 'bash'
+};
+
+/**
+ * Splits highlight.js HTML into one fragment per line. Spans that cross a
+ * line break are closed at its end and reopened on the next line, so every
+ * fragment is well-formed on its own.
+ */
+function splitHighlightedLines(html: string): string[] {
+  const lines: string[] = [];
+  const openSpans: string[] = [];
+  let current = '';
+
+  const tokens = /(<span[^>]*>)|(<\/span>)|(\n)|([^<\n]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokens.exec(html)) !== null) {
+    if (match[1]) {
+      openSpans.push(match[1]);
+      current += match[1];
+    } else if (match[2]) {
+      openSpans.pop();
+      current += match[2];
+    } else if (match[3]) {
+      lines.push(current + '</span>'.repeat(openSpans.length));
+      current = openSpans.join('');
+    } else {
+      current += match[4];
+    }
+  }
+  lines.push(current + '</span>'.repeat(openSpans.length));
+  return lines;
+}
+
+self.onmessage = (event: MessageEvent<HighlightRequest>) => {
+  const { generation, start, language, code } = event.data;
+  const name = LANGUAGE_ALIASES[language] ?? language;
+  if (!hljs.getLanguage(name)) return;
+
+  const html = hljs.highlight(code, { language: name, ignoreIllegals: true }).value;
+  const response: HighlightResponse = { generation, start, lines: splitHighlightedLines(html) };
+  self.postMessage(response);
+};
@@ -0,0 +1,86 @@
+import { findSectionAt, type OutputSection } from "@/lib/output-sections";
+
+// Past this many matches the search stops; counts are then reported as "N+"
+export const MAX_SEARCH_MATCHES = 10_000;
+
+export interface SearchOptions {
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface SearchMatch {
+  line: number;
+  // Character range [start, end) within the line
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  matches: SearchMatch[];
+  truncated: boolean;
+  // Set when the query is not a valid regular expression
+  error?: string;
+}
+
+export interface FileMatchCount {
+  path: string;
+  count: number;
+  // Index into the matches of the file's first match
+  firstMatch: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds every match of the query, line by line, so matches never span lines.
+ * Plain queries are matched literally; empty matches of a regex are skipped.
+ */
+export function searchLines(lines: string[], query: string, options: SearchOptions): SearchResult {
+  if (!query) return { matches: [], truncated: false };
+
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(options.regex ? query : escapeRegExp(query), options.caseSensitive ? 'g' : 'gi');
+  } catch (error) {
+    return { matches: [], truncated: false, error: (error as Error).message };
+  }
+
+  const matches: SearchMatch[] = [];
+  for (let line = 0; line < lines.length; line++) {
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(lines[line])) !== null) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      matches.push({ line, start: match.index, end: match.index + match[0].length });
+      if (matches.length >= MAX_SEARCH_MATCHES) {
+        return { matches, truncated: true };
+      }
+    }
+  }
+  return { matches, truncated: false };
+}
+
+// Matches per file section, in output order; matches outside any file
+// (title, file tree) are not attributed
+export function countMatchesByFile(matches: SearchMatch[], sections: OutputSection[]): FileMatchCount[] {
+  const counts: FileMatchCount[] = [];
+  let current: FileMatchCount | undefined;
+
+  matches.forEach((match, index) => {
+    const section = findSectionAt(sections, match.line);
+    if (section === -1) return;
+
+    const path = sections[section].path;
+    if (current?.path !== path) {
+      current = { path, count: 0, firstMatch: index };
+      counts.push(current);
+    }
+    current.count++;
+  });
+  return counts;
+}
@@ -0,0 +1,79 @@
+// A file's block in the formatted output, as a range of line indices
+export interface OutputSection {
+  path: string;
+  // Line of the `### path` heading or `<file>` tag
+  start: number;
+  // One past the section's last line
+  end: number;
+  // Lines inside the code fence and its language, for Markdown output
+  code?: { start: number; end: number; language: string };
+}
+
+const MARKDOWN_HEADING = /^### (.+)$/;
+const MARKDOWN_FENCE = /^(`{3,})[^`]*$/;
+const XML_FILE_TAG = /^<file path="([^"]*)"/;
+
+function unescapeAttribute(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Locates every file section in Markdown or XML output. Fenced and CDATA
+ * content is skipped, so `###` lines inside a file (e.g. a README) are never
+ * taken for section headings.
+ */
+export function findFileSections(lines: string[]): OutputSection[] {
+  const sections: OutputSection[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const heading = MARKDOWN_HEADING.exec(lines[i]);
+    const fence = heading && i + 1 < lines.length ? MARKDOWN_FENCE.exec(lines[i + 1]) : null;
+    const xmlTag = XML_FILE_TAG.exec(lines[i]);
+
+    if (heading && fence) {
+      const section: OutputSection = { path: heading[1], start: i, end: lines.length };
+      const language = lines[i + 1].substring(fence[1].length);
+      // The closing fence is exactly as long as the opening one
+      i += 2;
+      const codeStart = i;
+      while (i < lines.length && lines[i] !== fence[1]) i++;
+      section.code = { start: codeStart, end: i, language };
+      sections.push(section);
+    } else if (xmlTag) {
+      sections.push({ path: unescapeAttribute(xmlTag[1]), start: i, end: lines.length });
+      i++;
+      while (i < lines.length && !(lines[i] === ']]>' && lines[i + 1] === '</file>')) i++;
+      i++;
+    }
+    i++;
+  }
+
+  sections.forEach((section, index) => {
+    if (index + 1 < sections.length) {
+      section.end = sections[index + 1].start;
+    }
+  });
+  return sections;
+}
+
+// Index of the section containing the line, or -1 before the first section
+export function findSectionAt(sections: OutputSection[], line: number): number {
+  let low = 0;
+  let high = sections.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (sections[mid].start <= line) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { fuzzyMatch, matchPath, parsePathFilter } from "./path-filter";
+
+describe('fuzzyMatch', () => {
+  it('matches the term characters in order', () => {
+    expect(fuzzyMatch('src/file-tree.tsx', 'ftree')).toEqual([4, 9, 10, 11, 12]);
+    expect(fuzzyMatch('src/file-tree.tsx', 'xts')).toBeNull();
+  });
+
+  it('never uses a character twice', () => {
+    expect(fuzzyMatch('ab', 'aa')).toBeNull();
+    expect(fuzzyMatch('a', 'aa')).toBeNull();
+    expect(fuzzyMatch('aa', 'aa')).toEqual([0, 1]);
+  });
+
+  it('returns strictly increasing indices', () => {
+    ['components', 'cmpts', 'ss', 'o'].forEach(term => {
+      const indices = fuzzyMatch('client/src/components/sessions.ts', term)!;
+      expect(indices).not.toBeNull();
+      indices.slice(1).forEach((index, i) => expect(index).toBeGreaterThan(indices[i]));
+    });
+  });
+});
+
+describe('matchPath', () => {
+  it('requires every term and the extension filter', () => {
+    const filter = parsePathFilter('ext:ts,.TSX src btn');
+    expect(filter).toEqual({ extensions: ['.ts', '.tsx'], terms: ['src', 'btn'] });
+    expect(matchPath('src/button.tsx', '.tsx', filter)).not.toBeNull();
+    expect(matchPath('src/button.js', '.js', filter)).toBeNull();
+    expect(matchPath('lib/button.ts', '.ts', filter)).toBeNull();
+  });
+
+  it('rejects terms longer than the path allows', () => {
+    expect(matchPath('a.ts', '.ts', parsePathFilter('aaa'))).toBeNull();
+  });
+});
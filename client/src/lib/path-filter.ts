@@ -0,0 +1,67 @@
+// A parsed file tree filter: `ext:ts,tsx src comp` keeps .ts/.tsx files whose
+// path fuzzily matches both "src" and "comp"
+export interface PathFilter {
+  // Lowercase extensions with the leading dot, e.g. `.ts`; empty allows any
+  extensions: string[];
+  // Lowercase terms that must each fuzzily match the path
+  terms: string[];
+}
+
+const EXTENSION_PREFIX = 'ext:';
+
+export function parsePathFilter(query: string): PathFilter {
+  const filter: PathFilter = { extensions: [], terms: [] };
+
+  query.trim().split(/\s+/).filter(Boolean).forEach(token => {
+    if (token.toLowerCase().startsWith(EXTENSION_PREFIX)) {
+      token.substring(EXTENSION_PREFIX.length).split(',').filter(Boolean).forEach(ext => {
+        filter.extensions.push(ext.startsWith('.') ? ext.toLowerCase() : `.${ext.toLowerCase()}`);
+      });
+    } else {
+      filter.terms.push(token.toLowerCase());
+    }
+  });
+  return filter;
+}
+
+export function isEmptyPathFilter(filter: PathFilter): boolean {
+  return filter.extensions.length === 0 && filter.terms.length === 0;
+}
+
+/**
+ * Matches the term's characters in order anywhere in the text (case-insensitive),
+ * preferring the latest start so matches land in the file name rather than its
+ * folders. Returns the matched character indices, or null when it does not match.
+ */
+export function fuzzyMatch(text: string, term: string): number[] | null {
+  const lower = text.toLowerCase();
+  const indices: number[] = new Array(term.length);
+
+  // Match backwards from the end so the last character lands as late as possible
+  let position = lower.length - 1;
+  for (let i = term.length - 1; i >= 0; i--) {
+    // lastIndexOf clamps a negative start to 0, which would match index 0 again
+    if (position < 0) return null;
+    position = lower.lastIndexOf(term[i], position);
+    if (position === -1) return null;
+    indices[i] = position;
+    position--;
+  }
+  return indices;
+}
+
+// Character indices of the path matched by every term, or null when any
+// term or the extension filter fails
+export function matchPath(path: string, extension: string | undefined, filter: PathFilter): Set<number> | null {
+  if (filter.extensions.length > 0 && !filter.extensions.includes(extension?.toLowerCase() ?? '')) {
+    return null;
+  }
+
+  const matched = new Set<number>();
+  for (const term of filter.terms) {
+    const indices = fuzzyMatch(path, term);
+    if (!indices) return null;
+    indices.forEach(index => matched.add(index));
+  }
+  return matched;
+}
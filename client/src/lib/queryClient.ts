@@ -1,9 +1,35 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+
+  constructor(status: number, message: string, code?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let message = text;
+    let code: string | undefined;
+
+    // API errors are JSON bodies of the form { error, code? }
+    try {
+      const body = JSON.parse(text);
+      if (typeof body?.error === "string") {
+        message = body.error;
+        code = body.code;
+      }
+    } catch {
+      // Not JSON; keep the raw text
+    }
+
+    throw new ApiError(res.status, `${res.status}: ${message}`, code);
   }
 }
 
@@ -15,6 +15,12 @@ export function formatFileSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1000000) return `${parseFloat((tokens / 1000000).toFixed(1))}M`;
+  if (tokens >= 1000) return `${parseFloat((tokens / 1000).toFixed(1))}k`;
+  return String(tokens);
+}
+
 export function getFileTypeFromExtension(extension: string): string {
   const typeMap: { [key: string]: string } = {
     '.js': 'JavaScript',
@@ -0,0 +1,231 @@
+import { useDeferredValue, useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Header } from "@/components/header";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatFileSize } from "@/lib/utils";
+import { Archive, ChevronLeft, ChevronRight, Clock, Search, Trash2 } from "lucide-react";
+import type { ServerSettings, Upload, UploadListQuery, UploadListResponse } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "Expires in 3 days" for an upload under the retention policy
+function formatExpiry(uploadedAt: Date | string, retentionDays: number): string {
+  const remaining = new Date(uploadedAt).getTime() + retentionDays * DAY_MS - Date.now();
+  const days = Math.ceil(remaining / DAY_MS);
+  if (days <= 1) return 'Expires within a day';
+  return `Expires in ${days} days`;
+}
+
+export default function HistoryPage() {
+  const [name, setName] = useState('');
+  const [order, setOrder] = useState<UploadListQuery['order']>('desc');
+  const [page, setPage] = useState(1);
+  const deferredName = useDeferredValue(name.trim());
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE), order });
+  if (deferredName) params.set('name', deferredName);
+
+  const { data, isLoading, error } = useQuery<UploadListResponse>({
+    queryKey: [`/api/uploads?${params}`],
+    // The list changes with every upload elsewhere, unlike stored results
+    staleTime: 0,
+    placeholderData: previous => previous,
+  });
+
+  const { data: settings } = useQuery<ServerSettings>({ queryKey: ['/api/settings'] });
+  const retentionDays = settings?.retentionDays ?? null;
+
+  const { toast } = useToast();
+  const deleteMutation = useMutation({
+    mutationFn: async (upload: Upload) => {
+      await apiRequest('DELETE', `/api/uploads/${upload.id}`);
+      return upload;
+    },
+    onSuccess: (upload) => {
+      queryClient.removeQueries({ queryKey: [`/api/processed/${upload.id}`] });
+      queryClient.invalidateQueries({
+        predicate: query => String(query.queryKey[0]).startsWith('/api/uploads?')
+      });
+      toast({
+        title: "Upload deleted",
+        description: `${upload.originalName} and its results have been removed.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Delete failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  // Deleting the last upload on the last page leaves it empty
+  useEffect(() => {
+    if (page > pageCount) setPage(pageCount);
+  }, [page, pageCount]);
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200">
+          <div className="px-6 py-4 border-b border-slate-200">
+            <h2 className="text-lg font-semibold text-slate-900">Upload History</h2>
+            <p className="text-sm text-slate-500 mt-1">Reopen the result of an earlier archive</p>
+            {settings && (
+              <p className="text-xs text-slate-500 mt-2 flex items-center">
+                <Clock className="w-3.5 h-3.5 mr-1" />
+                {retentionDays === null
+                  ? 'Uploads and their results are kept until you delete them'
+                  : `Uploads and their results are deleted automatically ${retentionDays} ${retentionDays === 1 ? 'day' : 'days'} after upload`}
+              </p>
+            )}
+
+            <div className="mt-4 flex items-center gap-2">
+              <div className="relative flex-1 max-w-md">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                <Input
+                  value={name}
+                  onChange={(e) => {
+                    setName(e.target.value);
+                    setPage(1);
+                  }}
+                  placeholder="Filter by archive name"
+                  className="pl-9"
+                  aria-label="Filter by archive name"
+                />
+              </div>
+              <Select
+                value={order}
+                onValueChange={(value) => {
+                  setOrder(value as UploadListQuery['order']);
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="desc">Newest first</SelectItem>
+                  <SelectItem value="asc">Oldest first</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="divide-y divide-slate-100">
+            {isLoading && (
+              <p className="px-6 py-8 text-sm text-slate-500 text-center">Loading uploads...</p>
+            )}
+            {error && (
+              <p className="px-6 py-8 text-sm text-red-600 text-center">{(error as Error).message}</p>
+            )}
+            {data && data.uploads.length === 0 && (
+              <p className="px-6 py-8 text-sm text-slate-500 text-center">
+                {deferredName ? 'No uploads match this name' : 'No uploads yet'}
+              </p>
+            )}
+            {data?.uploads.map(upload => (
+              <div key={upload.id} className="px-6 py-3 flex items-center justify-between">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <Archive className="w-5 h-5 text-slate-400 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-slate-900 truncate">{upload.originalName}</div>
+                    <div className="text-xs text-slate-500">
+                      {formatFileSize(upload.fileSize)} • {new Date(upload.uploadedAt).toLocaleString()}
+                      {retentionDays !== null && <> • {formatExpiry(upload.uploadedAt, retentionDays)}</>}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/uploads/${upload.id}`}>Open</Link>
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-400 hover:text-red-600"
+                        title="Delete upload"
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete {upload.originalName}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The upload and its formatted output are removed permanently.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => deleteMutation.mutate(upload)}
+                          className="bg-red-600 hover:bg-red-700"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {data && data.total > data.pageSize && (
+            <div className="px-6 py-4 border-t border-slate-200 flex items-center justify-between">
+              <span className="text-sm text-slate-500">
+                Page {data.page} of {pageCount} • {data.total} uploads
+              </span>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  <ChevronLeft className="w-4 h-4 mr-1" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pageCount}
+                >
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-1" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
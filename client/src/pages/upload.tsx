@@ -1,17 +1,52 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
 import { Header } from "@/components/header";
 import { FileUpload } from "@/components/file-upload";
 import { FileTree } from "@/components/file-tree";
 import { FormattedOutput } from "@/components/formatted-output";
-import type { ProcessedOutput, FileTreeNode } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FileSelection, ProcessedOutput, FileTreeNode } from "@shared/schema";
 
 export default function UploadPage() {
   const [processedData, setProcessedData] = useState<ProcessedOutput | null>(null);
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  // File whose section is currently at the top of the output viewer
+  const [visibleFile, setVisibleFile] = useState<string | null>(null);
+  // Files with hits for the output search; null when not searching
+  const [searchFiles, setSearchFiles] = useState<string[] | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  // Set on /uploads/:uploadId, e.g. when reopening a result from the history page
+  const { uploadId } = useParams<{ uploadId?: string }>();
+  const [, navigate] = useLocation();
+
+  const storedResult = useQuery<ProcessedOutput>({
+    queryKey: [`/api/processed/${uploadId}`],
+    enabled: uploadId !== undefined,
+  });
+
+  useEffect(() => {
+    if (storedResult.data) {
+      setProcessedData(storedResult.data);
+      setSelectedFile(null);
+      setError(null);
+    }
+  }, [storedResult.data]);
+
+  useEffect(() => {
+    if (storedResult.error) {
+      setError(storedResult.error.message);
+      setProcessedData(null);
+    }
+  }, [storedResult.error]);
 
   const handleUploadSuccess = (data: ProcessedOutput) => {
+    // Give the result its own URL without fetching it again
+    queryClient.setQueryData([`/api/processed/${data.uploadId}`], data);
+    navigate(`/uploads/${data.uploadId}`);
     setProcessedData(data);
     setError(null);
   };
@@ -25,6 +60,25 @@ export default function UploadPage() {
     setSelectedFile(filePath);
   };
 
+  // Renders the stored upload again with only the files checked in the tree
+  const regenerateMutation = useMutation({
+    mutationFn: async ({ uploadId, selection }: { uploadId: number; selection: FileSelection }) => {
+      const response = await apiRequest('POST', `/api/processed/${uploadId}/render`, selection);
+      return response.json();
+    },
+    onSuccess: (data: ProcessedOutput) => {
+      // Keep the full tree so unchecked files can be checked again
+      setProcessedData(previous => previous && { ...data, fileTree: previous.fileTree });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Regeneration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   return (
     <div className="min-h-screen bg-slate-50">
       <Header />
@@ -38,22 +92,34 @@ export default function UploadPage() {
           error={error}
         />
 
+        {storedResult.isFetching && !processedData && (
+          <p className="mt-8 text-sm text-slate-500 text-center">Loading upload #{uploadId}...</p>
+        )}
+
         {processedData && (
           <div className="grid lg:grid-cols-3 gap-8 mt-8">
             <div className="lg:col-span-1">
               <FileTree
+                key={processedData.uploadId}
                 fileTree={processedData.fileTree}
                 onFileSelect={handleFileSelect}
                 selectedFile={selectedFile}
+                visibleFile={visibleFile}
                 stats={processedData.stats}
+                onRegenerate={(selection) => regenerateMutation.mutate({ uploadId: processedData.uploadId, selection })}
+                isRegenerating={regenerateMutation.isPending}
+                filterPaths={searchFiles}
               />
             </div>
             
             <div className="lg:col-span-2">
               <FormattedOutput
                 formattedContent={processedData.formattedContent}
+                parts={processedData.parts}
                 stats={processedData.stats}
                 selectedFile={selectedFile}
+                onVisibleFileChange={setVisibleFile}
+                onSearchFilesChange={setSearchFiles}
               />
             </div>
           </div>
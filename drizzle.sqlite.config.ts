@@ -0,0 +1,10 @@
+import { defineConfig } from "drizzle-kit";
+
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./shared/sqlite-schema.ts",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: process.env.SQLITE_PATH ?? "data/codearchive.db",
+  },
+});
@@ -0,0 +1,22 @@
+CREATE TABLE "processed_files" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"upload_id" integer NOT NULL,
+	"file_tree" json NOT NULL,
+	"output_blob" text NOT NULL,
+	"stats" json NOT NULL,
+	"options" json,
+	"entries" json,
+	"processed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "uploads" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"filename" text NOT NULL,
+	"original_name" text NOT NULL,
+	"file_size" integer NOT NULL,
+	"mime_type" text NOT NULL,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "processed_files" ADD CONSTRAINT "processed_files_upload_id_uploads_id_fk" FOREIGN KEY ("upload_id") REFERENCES "public"."uploads"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "processed_files_upload_id_idx" ON "processed_files" USING btree ("upload_id");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `processed_files` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`upload_id` integer NOT NULL,
+	`file_tree` text NOT NULL,
+	`output_blob` text NOT NULL,
+	`stats` text NOT NULL,
+	`options` text,
+	`entries` text,
+	`processed_at` integer DEFAULT (unixepoch('subsec') * 1000) NOT NULL,
+	FOREIGN KEY (`upload_id`) REFERENCES `uploads`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `processed_files_upload_id_idx` ON `processed_files` (`upload_id`);--> statement-breakpoint
+CREATE TABLE `uploads` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`filename` text NOT NULL,
+	`original_name` text NOT NULL,
+	`file_size` integer NOT NULL,
+	`mime_type` text NOT NULL,
+	`uploaded_at` integer DEFAULT (unixepoch('subsec') * 1000) NOT NULL
+);
@@ -0,0 +1,263 @@
+import AdmZip from "adm-zip";
+import Bunzip from "seek-bzip";
+import zlib from "zlib";
+import fs from "fs";
+import type { ArchiveErrorCode } from "@shared/schema";
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz' | 'tar.bz2';
+
+export interface ArchiveEntry {
+  path: string;
+  isDirectory: boolean;
+  size: number;
+  getData(): Buffer;
+}
+
+export interface ArchiveReader {
+  readonly format: ArchiveFormat;
+  getEntries(): ArchiveEntry[];
+}
+
+export class ArchiveError extends Error {
+  readonly code: ArchiveErrorCode;
+
+  constructor(code: ArchiveErrorCode, message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+    this.code = code;
+  }
+}
+
+const TAR_BLOCK_SIZE = 512;
+
+// Enough to cover every signature, including the ustar magic at offset 257
+const SNIFF_LENGTH = TAR_BLOCK_SIZE;
+
+const ARCHIVE_MIME_TYPES: Record<ArchiveFormat, string> = {
+  'zip': 'application/zip',
+  'tar': 'application/x-tar',
+  'tar.gz': 'application/gzip',
+  'tar.bz2': 'application/x-bzip2'
+};
+
+function isZip(buffer: Buffer): boolean {
+  // Local file header, empty archive and spanned archive signatures
+  return buffer.length >= 4 && buffer[0] === 0x50 && buffer[1] === 0x4b &&
+    ((buffer[2] === 0x03 && buffer[3] === 0x04) ||
+     (buffer[2] === 0x05 && buffer[3] === 0x06) ||
+     (buffer[2] === 0x07 && buffer[3] === 0x08));
+}
+
+function isGzip(buffer: Buffer): boolean {
+  return buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+}
+
+function isBzip2(buffer: Buffer): boolean {
+  return buffer.length >= 3 && buffer.toString('latin1', 0, 3) === 'BZh';
+}
+
+function readTarString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end === -1 ? field.length : end);
+}
+
+function readTarNumber(block: Buffer, offset: number, length: number): number {
+  // GNU base-256 encoding for values that do not fit in the octal field
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + block[offset + i];
+    }
+    return value;
+  }
+  const text = readTarString(block, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function isTarHeader(block: Buffer): boolean {
+  if (block.length < TAR_BLOCK_SIZE) return false;
+  if (block.toString('latin1', 257, 262) === 'ustar') return true;
+
+  // Pre-POSIX (v7) archives carry no magic, so fall back to the header checksum
+  const expected = readTarNumber(block, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  return sum === expected && expected > 0;
+}
+
+function parsePaxPath(data: Buffer): string | undefined {
+  // Records are "<length> <key>=<value>\n"
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.toString('utf8', offset, space), 10);
+    if (!length) break;
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const equals = record.indexOf('=');
+    if (record.substring(0, equals) === 'path') {
+      return record.substring(equals + 1);
+    }
+    offset += length;
+  }
+  return undefined;
+}
+
+function normalizeEntryPath(entryPath: string): string {
+  return entryPath.replace(/^(\.\/|\/)+/, '');
+}
+
+export function detectArchiveFormat(buffer: Buffer): ArchiveFormat | null {
+  if (isZip(buffer)) return 'zip';
+  if (isGzip(buffer)) return 'tar.gz';
+  if (isBzip2(buffer)) return 'tar.bz2';
+  if (isTarHeader(buffer.subarray(0, TAR_BLOCK_SIZE))) return 'tar';
+  return null;
+}
+
+export function getArchiveMimeType(format: ArchiveFormat): string {
+  return ARCHIVE_MIME_TYPES[format];
+}
+
+/**
+ * Reads only the leading bytes of a stored upload and returns its archive
+ * format, or throws an UNSUPPORTED_ARCHIVE error if no signature matches.
+ */
+export function sniffArchiveFormat(filePath: string): ArchiveFormat {
+  const header = Buffer.alloc(SNIFF_LENGTH);
+  const fd = fs.openSync(filePath, 'r');
+  let bytesRead: number;
+  try {
+    bytesRead = fs.readSync(fd, header, 0, SNIFF_LENGTH, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  const format = detectArchiveFormat(header.subarray(0, bytesRead));
+  if (!format) {
+    throw new ArchiveError('UNSUPPORTED_ARCHIVE', 'File is not a supported archive (ZIP, TAR, TAR.GZ or TAR.BZ2)');
+  }
+  return format;
+}
+
+export class ZipArchiveReader implements ArchiveReader {
+  readonly format: ArchiveFormat = 'zip';
+  private zip: AdmZip;
+
+  constructor(buffer: Buffer) {
+    this.zip = new AdmZip(buffer);
+  }
+
+  getEntries(): ArchiveEntry[] {
+    return this.zip.getEntries().map(entry => ({
+      path: entry.entryName,
+      isDirectory: entry.isDirectory,
+      size: entry.header.size,
+      getData: () => entry.getData()
+    }));
+  }
+}
+
+export class TarArchiveReader implements ArchiveReader {
+  readonly format: ArchiveFormat;
+  private buffer: Buffer;
+
+  constructor(buffer: Buffer, format: ArchiveFormat = 'tar') {
+    this.format = format;
+    this.buffer = buffer;
+  }
+
+  getEntries(): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+    const buffer = this.buffer;
+    let offset = 0;
+    let pendingPath: string | undefined;
+
+    while (offset < buffer.length) {
+      if (offset + TAR_BLOCK_SIZE > buffer.length) {
+        throw new Error('Unexpected end of tar archive');
+      }
+      const header = buffer.subarray(offset, offset + TAR_BLOCK_SIZE);
+      // Two zero blocks mark the end of the archive; one is enough to stop
+      if (header.every(byte => byte === 0)) break;
+      if (!isTarHeader(header)) {
+        throw new Error(`Invalid tar header at offset ${offset}`);
+      }
+
+      const size = readTarNumber(header, 124, 12);
+      const type = String.fromCharCode(header[156] || 0x30);
+      const dataStart = offset + TAR_BLOCK_SIZE;
+      const dataEnd = dataStart + size;
+      offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+      if (dataEnd > buffer.length) {
+        throw new Error('Unexpected end of tar archive');
+      }
+
+      // GNU long name and pax extended headers describe the entry that follows
+      if (type === 'L') {
+        pendingPath = readTarString(buffer, dataStart, size);
+        continue;
+      }
+      if (type === 'x') {
+        pendingPath = parsePaxPath(buffer.subarray(dataStart, dataEnd)) ?? pendingPath;
+        continue;
+      }
+
+      let entryPath = pendingPath;
+      pendingPath = undefined;
+      if (entryPath === undefined) {
+        const name = readTarString(header, 0, 100);
+        const prefix = readTarString(header, 345, 155);
+        entryPath = prefix ? `${prefix}/${name}` : name;
+      }
+
+      // Only regular files and directories are meaningful here; links,
+      // devices and FIFOs are skipped
+      const isDirectory = type === '5';
+      if (!isDirectory && type !== '0' && type !== '7') continue;
+
+      entryPath = normalizeEntryPath(entryPath);
+      if (!entryPath) continue;
+
+      entries.push({
+        path: isDirectory && !entryPath.endsWith('/') ? `${entryPath}/` : entryPath,
+        isDirectory,
+        size: isDirectory ? 0 : size,
+        getData: () => buffer.subarray(dataStart, dataEnd)
+      });
+    }
+
+    return entries;
+  }
+}
+
+function createReader(buffer: Buffer, format: ArchiveFormat): ArchiveReader {
+  switch (format) {
+    case 'zip':
+      return new ZipArchiveReader(buffer);
+    case 'tar':
+      return new TarArchiveReader(buffer);
+    case 'tar.gz':
+      return new TarArchiveReader(zlib.gunzipSync(buffer), format);
+    case 'tar.bz2':
+      return new TarArchiveReader(Bunzip.decode(buffer, undefined, true), format);
+  }
+}
+
+export function openArchive(filePath: string, format = sniffArchiveFormat(filePath)): ArchiveReader {
+  const buffer = fs.readFileSync(filePath);
+
+  try {
+    const reader = createReader(buffer, format);
+    // Parse eagerly so truncated or corrupt archives fail here, not mid-processing
+    const entries = reader.getEntries();
+    return { format: reader.format, getEntries: () => entries };
+  } catch (error) {
+    const detail = error instanceof Error ? `: ${error.message}` : '';
+    throw new ArchiveError('CORRUPT_ARCHIVE', `Could not read ${format} archive${detail}`);
+  }
+}
@@ -0,0 +1,212 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { ProcessedFile, RetainedEntry, StoredEntry } from "@shared/schema";
+
+const BLOB_HASH = /^[0-9a-f]{64}$/;
+
+export function hashBlob(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Content-addressed store for large text (formatted outputs and extracted
+ * file contents) on the filesystem. A blob is named by the SHA-256 of its
+ * UTF-8 bytes, so identical content is written once; IStorage only keeps
+ * the hashes.
+ */
+export class BlobStore {
+  constructor(private root: string) {}
+
+  // Spread over 256 subdirectories, git-style: ab/cdef...
+  private blobPath(hash: string): string {
+    if (!BLOB_HASH.test(hash)) {
+      throw new Error(`Invalid blob hash "${hash}"`);
+    }
+    return path.join(this.root, hash.substring(0, 2), hash.substring(2));
+  }
+
+  async put(content: string): Promise<string> {
+    const data = Buffer.from(content, 'utf8');
+    const hash = hashBlob(data);
+    const file = this.blobPath(hash);
+
+    if (!fs.existsSync(file)) {
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      // Write then rename, so readers never see a partial blob
+      const temp = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+      await fs.promises.writeFile(temp, data);
+      await fs.promises.rename(temp, file);
+    } else {
+      // Reused content counts as new for the orphan sweep's age check
+      const now = new Date();
+      await fs.promises.utimes(file, now, now);
+    }
+    return hash;
+  }
+
+  // Hashes of the blobs last written before the cutoff; temp files are skipped
+  async list(modifiedBefore: Date): Promise<string[]> {
+    if (!fs.existsSync(this.root)) return [];
+
+    const hashes: string[] = [];
+    for (const prefix of await fs.promises.readdir(this.root)) {
+      const dir = path.join(this.root, prefix);
+      if (!/^[0-9a-f]{2}$/.test(prefix) || !(await fs.promises.stat(dir)).isDirectory()) continue;
+
+      for (const rest of await fs.promises.readdir(dir)) {
+        const hash = prefix + rest;
+        if (!BLOB_HASH.test(hash)) continue;
+        const { mtime } = await fs.promises.stat(path.join(dir, rest));
+        if (mtime < modifiedBefore) hashes.push(hash);
+      }
+    }
+    return hashes;
+  }
+
+  async read(hash: string): Promise<string> {
+    return fs.promises.readFile(this.blobPath(hash), 'utf8');
+  }
+
+  // Yields the blob as strings; multi-byte characters are never split
+  createReadStream(hash: string): fs.ReadStream {
+    return fs.createReadStream(this.blobPath(hash), { encoding: 'utf8' });
+  }
+
+  async delete(hash: string): Promise<void> {
+    await fs.promises.rm(this.blobPath(hash), { force: true });
+  }
+}
+
+const MEMORY_BLOB_DIR = /^codearchive-blobs-(\d+)-/;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: it exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * MemStorage forgets every result on restart, and with them every reference
+ * to their blobs, so its blobs go to a temp directory of this process's own
+ * rather than BLOB_DIR. The directory is removed on exit; ones left behind by
+ * killed processes are removed when the next one starts.
+ */
+function createMemoryBlobDir(): string {
+  const tmp = os.tmpdir();
+  fs.readdirSync(tmp).forEach(name => {
+    const owner = Number(name.match(MEMORY_BLOB_DIR)?.[1]);
+    if (owner && owner !== process.pid && !isProcessAlive(owner)) {
+      fs.rmSync(path.join(tmp, name), { recursive: true, force: true });
+    }
+  });
+
+  const dir = fs.mkdtempSync(path.join(tmp, `codearchive-blobs-${process.pid}-`));
+  process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+  return dir;
+}
+
+// Same default as createStorage in storage.ts, which imports this module
+export const blobStore = new BlobStore((process.env.STORAGE_BACKEND ?? 'memory') === 'memory'
+  ? createMemoryBlobDir()
+  : process.env.BLOB_DIR ?? 'data/blobs');
+
+// Many shared holders or one exclusive holder at a time, granted in arrival
+// order so a waiting exclusive holder is not starved
+class SharedExclusiveLock {
+  private sharedHolders = 0;
+  private exclusiveHeld = false;
+  private waiting: Array<{ exclusive: boolean; grant: () => void }> = [];
+
+  shared<T>(task: () => Promise<T>): Promise<T> {
+    return this.run(false, task);
+  }
+
+  exclusive<T>(task: () => Promise<T>): Promise<T> {
+    return this.run(true, task);
+  }
+
+  private async run<T>(exclusive: boolean, task: () => Promise<T>): Promise<T> {
+    await this.acquire(exclusive);
+    try {
+      return await task();
+    } finally {
+      this.release(exclusive);
+    }
+  }
+
+  private canAcquire(exclusive: boolean): boolean {
+    return exclusive ? !this.exclusiveHeld && this.sharedHolders === 0 : !this.exclusiveHeld;
+  }
+
+  private take(exclusive: boolean): void {
+    if (exclusive) {
+      this.exclusiveHeld = true;
+    } else {
+      this.sharedHolders++;
+    }
+  }
+
+  private acquire(exclusive: boolean): Promise<void> {
+    if (this.waiting.length === 0 && this.canAcquire(exclusive)) {
+      this.take(exclusive);
+      return Promise.resolve();
+    }
+    return new Promise(resolve => {
+      this.waiting.push({ exclusive, grant: resolve });
+    });
+  }
+
+  private release(exclusive: boolean): void {
+    if (exclusive) {
+      this.exclusiveHeld = false;
+    } else {
+      this.sharedHolders--;
+    }
+    while (this.waiting.length > 0 && this.canAcquire(this.waiting[0].exclusive)) {
+      const next = this.waiting.shift()!;
+      this.take(next.exclusive);
+      next.grant();
+    }
+  }
+}
+
+/**
+ * Orders blob writes against garbage collection within this process. `put`
+ * skips blobs that already exist, so a result being stored may rely on a blob
+ * that collection is about to delete: writers hold the lock shared from their
+ * first `put` until their references are saved, collectors hold it exclusively
+ * from the reference check until the deletes are done.
+ */
+export const blobReferenceLock = new SharedExclusiveLock();
+
+// Moves entry contents into the blob store, one at a time to bound open files
+export async function storeEntries(entries: RetainedEntry[]): Promise<StoredEntry[]> {
+  const stored: StoredEntry[] = [];
+  for (const { content, ...entry } of entries) {
+    stored.push(content === undefined ? entry : { ...entry, contentBlob: await blobStore.put(content) });
+  }
+  return stored;
+}
+
+export async function loadEntries(entries: StoredEntry[]): Promise<RetainedEntry[]> {
+  const retained: RetainedEntry[] = [];
+  for (const { contentBlob, ...entry } of entries) {
+    retained.push(contentBlob === undefined ? entry : { ...entry, content: await blobStore.read(contentBlob) });
+  }
+  return retained;
+}
+
+// Every blob a processed file references: its output and its entries' contents
+export function getBlobReferences(processedFile: ProcessedFile): string[] {
+  const entries = (processedFile.entries ?? []) as StoredEntry[];
+  return [
+    processedFile.outputBlob,
+    ...entries.flatMap(entry => entry.contentBlob === undefined ? [] : [entry.contentBlob])
+  ];
+}
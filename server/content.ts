@@ -0,0 +1,127 @@
+import type { TextEncoding } from "@shared/schema";
+
+// How much of a file to inspect when classifying it; the same window git uses
+const SNIFF_LENGTH = 8000;
+
+// Above this share of control characters a NUL-free sample is still binary
+const MAX_CONTROL_RATIO = 0.1;
+
+// BOM-less UTF-16 is assumed when this share of one byte lane is NUL
+const UTF16_NUL_RATIO = 0.4;
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F; Node's TextDecoder
+// treats the two labels alike, so these are mapped by hand
+const WINDOWS_1252_HIGH = '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+export interface TextContent {
+  text: string;
+  encoding: TextEncoding;
+}
+
+function isControlCode(code: number): boolean {
+  // Tab, LF, VT, FF, CR, backspace and ESC (ANSI colors in logs) occur in text
+  if (code === 0x09 || code === 0x0a || code === 0x0b || code === 0x0c ||
+      code === 0x0d || code === 0x08 || code === 0x1b) {
+    return false;
+  }
+  return code < 0x20 || code === 0x7f;
+}
+
+/**
+ * Classifies file content as binary by sniffing its leading bytes: any NUL
+ * byte, or a high ratio of control characters, means it is not text.
+ */
+export function isBinaryContent(data: Buffer): boolean {
+  const sample = data.subarray(0, SNIFF_LENGTH);
+  if (sample.length === 0) return false;
+  if (sample.includes(0)) return true;
+
+  let controlBytes = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (isControlCode(sample[i])) controlBytes++;
+  }
+  return controlBytes / sample.length > MAX_CONTROL_RATIO;
+}
+
+function isBinaryText(text: string): boolean {
+  const sampleLength = Math.min(text.length, SNIFF_LENGTH);
+  if (sampleLength === 0) return false;
+
+  let controlChars = 0;
+  for (let i = 0; i < sampleLength; i++) {
+    const code = text.charCodeAt(i);
+    if (code === 0) return true;
+    if (isControlCode(code)) controlChars++;
+  }
+  return controlChars / sampleLength > MAX_CONTROL_RATIO;
+}
+
+// Mostly-ASCII UTF-16 has a NUL in every other byte, in the high-byte lane
+function sniffUtf16(data: Buffer): TextEncoding | undefined {
+  const sample = data.subarray(0, SNIFF_LENGTH - (SNIFF_LENGTH % 2));
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs < 2) return undefined;
+
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0) evenNuls++;
+    if (sample[i + 1] === 0) oddNuls++;
+  }
+
+  if (oddNuls / pairs > UTF16_NUL_RATIO && evenNuls === 0) return 'utf-16le';
+  if (evenNuls / pairs > UTF16_NUL_RATIO && oddNuls === 0) return 'utf-16be';
+  return undefined;
+}
+
+function decodeWindows1252(data: Buffer): string {
+  return data.toString('latin1').replace(/[\u0080-\u009f]/g, char => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80]);
+}
+
+function isValidUtf8(data: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detects a file's encoding from its BOM, a UTF-16 byte pattern or UTF-8
+ * validity, falling back to Windows-1252 for legacy 8-bit text.
+ */
+export function detectEncoding(data: Buffer): TextEncoding {
+  if (data.length >= 3 && data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return 'utf-8-bom';
+  if (data.length >= 2 && data[0] === 0xff && data[1] === 0xfe) return 'utf-16le';
+  if (data.length >= 2 && data[0] === 0xfe && data[1] === 0xff) return 'utf-16be';
+
+  const utf16 = sniffUtf16(data);
+  if (utf16) return utf16;
+
+  return isValidUtf8(data) ? 'utf-8' : 'windows-1252';
+}
+
+/**
+ * Decodes file content to a UTF-8 string with any BOM stripped, or returns
+ * null when the content is binary.
+ */
+export function decodeText(data: Buffer): TextContent | null {
+  const encoding = detectEncoding(data);
+
+  if (encoding === 'utf-16le' || encoding === 'utf-16be') {
+    // UTF-16 is full of NUL bytes, so classify after decoding instead
+    const text = new TextDecoder(encoding).decode(data);
+    return isBinaryText(text) ? null : { text, encoding };
+  }
+
+  if (isBinaryContent(data)) return null;
+
+  if (encoding === 'windows-1252') {
+    return { text: decodeWindows1252(data), encoding };
+  }
+
+  // TextDecoder drops a leading UTF-8 BOM by default
+  return { text: new TextDecoder('utf-8').decode(data), encoding };
+}
@@ -0,0 +1,38 @@
+import fs from "fs";
+import path from "path";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import BetterSqlite3 from "better-sqlite3";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzleSqlite } from "drizzle-orm/better-sqlite3";
+import { migrate as migrateSqlite } from "drizzle-orm/better-sqlite3/migrator";
+import ws from "ws";
+import * as schema from "@shared/schema";
+import * as sqliteSchema from "@shared/sqlite-schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = ReturnType<typeof createDatabase>;
+
+export function createDatabase(connectionString: string | undefined) {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set to use PostgreSQL storage. Did you forget to provision a database?");
+  }
+
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+export type SqliteDatabase = ReturnType<typeof createSqliteDatabase>;
+
+// Opens (creating it if needed) the SQLite file and brings its schema up to date
+export function createSqliteDatabase(filename: string) {
+  fs.mkdirSync(path.dirname(filename), { recursive: true });
+  const sqlite = new BetterSqlite3(filename);
+  // Readers do not block the writer; foreign keys are off by default in SQLite
+  sqlite.pragma("journal_mode = WAL");
+  sqlite.pragma("foreign_keys = ON");
+
+  const db = drizzleSqlite({ client: sqlite, schema: sqliteSchema });
+  migrateSqlite(db, { migrationsFolder: path.resolve("migrations/sqlite") });
+  return db;
+}
@@ -0,0 +1,89 @@
+import picomatch from "picomatch";
+import type { UploadOptions } from "@shared/schema";
+
+type PathMatcher = (relativePath: string) => boolean | undefined;
+
+/**
+ * Compiles an ordered glob list where `!pattern` negates. Like .gitignore,
+ * the last matching pattern decides; undefined means no pattern matched.
+ */
+function compilePatternList(patterns: string[]): PathMatcher {
+  const rules = patterns.map(pattern => {
+    const negated = pattern.startsWith('!');
+    return {
+      negated,
+      isMatch: picomatch(negated ? pattern.substring(1) : pattern, { dot: true })
+    };
+  });
+
+  return (relativePath) => {
+    let result: boolean | undefined;
+    rules.forEach(rule => {
+      if (rule.isMatch(relativePath)) {
+        result = !rule.negated;
+      }
+    });
+    return result;
+  };
+}
+
+/**
+ * Builds a predicate over archive paths (relative to the project root) from
+ * the per-upload include/exclude lists. These only narrow the built-in and
+ * .gitignore filtering; they never bring back an entry already dropped.
+ */
+export function createPathFilter(options: UploadOptions): (relativePath: string, isDirectory: boolean) => boolean {
+  const include = compilePatternList(options.include);
+  const exclude = compilePatternList(options.exclude);
+  // An include list made only of negations starts from "everything"
+  const includeByDefault = options.include.every(pattern => pattern.startsWith('!'));
+
+  const isExcluded = (relativePath: string): boolean => {
+    const direct = exclude(relativePath);
+    if (direct !== undefined) return direct;
+
+    // Excluding a folder by name (e.g. `fixtures`) excludes everything in it
+    const parts = relativePath.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      if (exclude(parts.slice(0, i).join('/')) === true) return true;
+    }
+    return false;
+  };
+
+  return (relativePath, isDirectory) => {
+    relativePath = relativePath.replace(/\/+$/, '');
+    if (isExcluded(relativePath)) return false;
+
+    // Folders are rebuilt from the files that survive, so explicit directory
+    // entries only matter when nothing is being included selectively
+    if (isDirectory) return includeByDefault;
+
+    return include(relativePath) ?? includeByDefault;
+  };
+}
+
+// Dot-prefixed files and folders kept by default: project configuration that
+// is useful context. Everything else starting with '.' (VCS metadata, editor
+// state, caches, .env secrets) stays hidden unless explicitly allowed.
+const DEFAULT_DOT_PATHS = [
+  '.github', '.gitlab', '.gitlab-ci.yml', '.circleci', '.devcontainer', '.husky', '.changeset', '.storybook',
+  '.gitignore', '.gitattributes', '.dockerignore', '.editorconfig', '.npmignore',
+  '.eslintrc', '.eslintrc.*', '.eslintignore', '.prettierrc', '.prettierrc.*', '.prettierignore',
+  '.stylelintrc', '.stylelintrc.*', '.babelrc', '.babelrc.*', '.browserslistrc', '.swcrc',
+  '.nvmrc', '.node-version', '.python-version', '.ruby-version', '.tool-versions',
+  '.pre-commit-config.yaml', '.flake8', '.pylintrc', '.rubocop.yml', '.golangci.yml', '.golangci.yaml',
+  '.clang-format', '.clang-tidy', '.env.example', '.env.sample', '.env.template'
+];
+
+/**
+ * Builds the dot-path policy: returns true when a dot-prefixed path segment
+ * should be kept. User `allow` patterns add to the defaults and `deny`
+ * patterns win over both. Patterns are matched against single names.
+ */
+export function createDotPathPolicy(dotPaths: UploadOptions['dotPaths']): (name: string) => boolean {
+  const isDefault = picomatch(DEFAULT_DOT_PATHS, { dot: true });
+  const isAllowed = dotPaths.allow.length > 0 ? picomatch(dotPaths.allow, { dot: true }) : () => false;
+  const isDenied = dotPaths.deny.length > 0 ? picomatch(dotPaths.deny, { dot: true }) : () => false;
+
+  return (name) => !isDenied(name) && (isDefault(name) || isAllowed(name));
+}
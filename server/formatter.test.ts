@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { findFileSections } from "@/lib/output-sections";
+import { approximateTokenizer } from "./tokenizer";
+import { getCodeFence, renderOutput } from "./formatter";
+import type { ExtractedFile, FileTreeNode } from "@shared/schema";
+
+function makeFile(path: string, content: string, language = 'markdown'): ExtractedFile {
+  return { path, language, encoding: 'utf-8', size: content.length, lines: content.split('\n').length, content };
+}
+
+function makeTree(files: ExtractedFile[]): FileTreeNode[] {
+  return files.map(file => ({ name: file.path, path: file.path, type: 'file', language: file.language }));
+}
+
+const README = [
+  '# Project',
+  '',
+  '### Usage',
+  '```ts',
+  'run();',
+  '```',
+  '',
+  '### Nested',
+  '````md',
+  '```js',
+  'inner();',
+  '```',
+  '````',
+].join('\n');
+
+const FILES = [
+  makeFile('README.md', README),
+  makeFile('docs/inline.md', 'Use `code` and ``double`` ticks, then:\n``````\nsix\n``````'),
+  makeFile('src/index.ts', 'export const fence = "```";\n', 'typescript'),
+  makeFile('src/empty-line.ts', 'const a = 1;\n\n### not a heading\n', 'typescript'),
+];
+
+// Renders the files as Markdown and reads each file's content back from its
+// fenced section, the way the client viewer locates them
+function roundTrip(files: ExtractedFile[]) {
+  const { formattedContent } = renderOutput(makeTree(files), files, { tokenizer: approximateTokenizer, format: 'markdown' });
+  const lines = formattedContent.split('\n');
+  return findFileSections(lines).map(section => ({
+    path: section.path,
+    language: section.code?.language,
+    content: lines.slice(section.code!.start, section.code!.end).join('\n'),
+  }));
+}
+
+describe('getCodeFence', () => {
+  it('uses three backticks when the content has no longer run', () => {
+    expect(getCodeFence('plain text')).toBe('```');
+    expect(getCodeFence('one ` and two ``')).toBe('```');
+  });
+
+  it('is one backtick longer than the longest run', () => {
+    expect(getCodeFence('```js\nx\n```')).toBe('````');
+    expect(getCodeFence('````md\n```\n````')).toBe('`````');
+    expect(getCodeFence('``````')).toBe('```````');
+  });
+});
+
+describe('Markdown sections', () => {
+  it('parse back to one section per file, in order', () => {
+    const sections = roundTrip(FILES);
+    expect(sections.map(section => section.path)).toEqual(FILES.map(file => file.path));
+  });
+
+  it('keep nested fences and ### lines inside the file content', () => {
+    const sections = roundTrip(FILES);
+    FILES.forEach((file, index) => {
+      expect(sections[index].content).toBe(file.content);
+      expect(sections[index].language).toBe(file.language);
+    });
+  });
+
+  it('survive a file that is nothing but a long backtick run', () => {
+    const files = [makeFile('a.md', '`'.repeat(10)), makeFile('b.md', 'after')];
+    expect(roundTrip(files)).toEqual([
+      { path: 'a.md', language: 'markdown', content: '`'.repeat(10) },
+      { path: 'b.md', language: 'markdown', content: 'after' },
+    ]);
+  });
+});
@@ -0,0 +1,298 @@
+import type { ExtractedFile, FileTreeNode, OutputFormatName, OutputPart, SplitOptions } from "@shared/schema";
+import type { Tokenizer } from "./tokenizer";
+
+// Position of a piece of a file that had to be split across parts
+export interface FilePiece {
+  part: number;
+  total: number;
+}
+
+export interface OutputFormat {
+  // Title and file tree; appears once, at the start of the output
+  preamble(fileTree: FileTreeNode[]): string;
+  // One file's block, or one piece of it when `piece` is given
+  fileSection(file: Pick<ExtractedFile, 'path' | 'language' | 'content'>, piece?: FilePiece): string;
+  partHeader(part: number, total: number): string;
+}
+
+export interface RenderOptions {
+  tokenizer: Tokenizer;
+  format?: OutputFormatName;
+  split?: SplitOptions | null;
+}
+
+export interface RenderedOutput {
+  formattedContent: string;
+  parts?: OutputPart[];
+  totalTokens: number;
+  // Tokens of each file's section, keyed by path
+  fileTokens: Map<string, number>;
+}
+
+type Measure = (text: string) => number;
+
+export function generateFileTreeString(nodes: FileTreeNode[], prefix = '', isLast = true): string {
+  let result = '';
+
+  nodes.forEach((node, index) => {
+    const isLastItem = index === nodes.length - 1;
+    const connector = isLastItem ? '└── ' : '├── ';
+    const icon = node.type === 'folder' ? '📁 ' : '📄 ';
+
+    result += `${prefix}${connector}${icon}${node.name}\n`;
+
+    if (node.children && node.children.length > 0) {
+      const newPrefix = prefix + (isLastItem ? '    ' : '│   ');
+      result += generateFileTreeString(node.children, newPrefix, isLastItem);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Returns a backtick fence longer than any backtick run in the content, so
+ * embedded code blocks (READMEs, docs) cannot close the file's block early.
+ */
+export function getCodeFence(content: string): string {
+  let longest = 0;
+  const runs = content.match(/`+/g);
+  if (runs) {
+    runs.forEach(run => {
+      longest = Math.max(longest, run.length);
+    });
+  }
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+export const markdownFormat: OutputFormat = {
+  preamble(fileTree) {
+    let result = '# Project Structure and Contents\n\n';
+    result += '## File Tree\n\n```\n';
+    result += generateFileTreeString(fileTree);
+    result += '```\n\n## File Contents\n\n';
+    return result;
+  },
+
+  fileSection(file, piece) {
+    const heading = piece ? `${file.path} (part ${piece.part} of ${piece.total})` : file.path;
+    const fence = getCodeFence(file.content);
+    return `### ${heading}\n${fence}${file.language}\n${file.content}\n${fence}\n\n`;
+  },
+
+  partHeader(part, total) {
+    return `# Part ${part} of ${total}\n\n`;
+  }
+};
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// `]]>` cannot appear inside CDATA, so it is split across two sections
+function wrapCdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Wraps each file in a `<file>` element whose content is CDATA, so nothing in
+ * a file (fences, markup) can break the structure. The output is a sequence
+ * of elements without a root, so parts stay self-contained.
+ */
+export const xmlFormat: OutputFormat = {
+  preamble(fileTree) {
+    return `<tree>\n${wrapCdata(generateFileTreeString(fileTree))}\n</tree>\n\n`;
+  },
+
+  fileSection(file, piece) {
+    let attributes = `path="${escapeAttribute(file.path)}" language="${escapeAttribute(file.language)}"`;
+    if (piece) {
+      attributes += ` part="${piece.part}" parts="${piece.total}"`;
+    }
+    // Keep the closing `]]>` on a line of its own
+    const content = file.content.endsWith('\n') ? file.content : `${file.content}\n`;
+    return `<file ${attributes}>\n${wrapCdata(content)}\n</file>\n\n`;
+  },
+
+  partHeader(part, total) {
+    return `<!-- Part ${part} of ${total} -->\n\n`;
+  }
+};
+
+const OUTPUT_FORMATS: { [name in OutputFormatName]: OutputFormat } = {
+  markdown: markdownFormat,
+  xml: xmlFormat
+};
+
+// Cuts a line that alone exceeds the budget into roughly budget-sized pieces
+function hardSplitLine(line: string, lineSize: number, available: number): string[] {
+  const length = Math.max(1, Math.floor(line.length * available / lineSize));
+  const segments: string[] = [];
+  for (let i = 0; i < line.length; i += length) {
+    segments.push(line.substring(i, i + length));
+  }
+  return segments;
+}
+
+/**
+ * Splits a file that does not fit in one part into line-aligned pieces, each
+ * rendered as its own labelled block. The first piece fills the room left in
+ * the current part (`firstBudget`), the rest a whole part each. Lines longer
+ * than a whole part (e.g. minified code) are the only thing ever cut mid-line.
+ */
+function splitFileSection(
+  format: OutputFormat,
+  file: ExtractedFile,
+  firstBudget: number,
+  budget: number,
+  measure: Measure
+): string[] {
+  const overhead = measure(format.fileSection({ ...file, content: '' }, { part: 999, total: 999 }));
+  const available = budget - overhead;
+  if (available <= 0) {
+    throw new Error('Split limit is too small to fit a single file heading');
+  }
+
+  const pieces: string[][] = [];
+  let current: string[] = [];
+  let currentSize = 0;
+  let capacity = firstBudget - overhead;
+
+  file.content.split('\n').forEach(line => {
+    const lineSize = measure(`${line}\n`);
+    const segments = lineSize > available ? hardSplitLine(line, lineSize, available) : [line];
+
+    segments.forEach(segment => {
+      const segmentSize = segments.length === 1 ? lineSize : measure(`${segment}\n`);
+      if (currentSize + segmentSize > capacity && (current.length > 0 || pieces.length === 0)) {
+        // An empty first piece just means the file starts in the next part
+        pieces.push(current);
+        current = [];
+        currentSize = 0;
+        capacity = available;
+      }
+      current.push(segment);
+      currentSize += segmentSize;
+    });
+  });
+  pieces.push(current);
+
+  const skipped = pieces[0].length === 0 ? 1 : 0;
+  return pieces.map((lines, index) => lines.length === 0 ? '' :
+    format.fileSection({ ...file, content: lines.join('\n') }, { part: index + 1 - skipped, total: pieces.length - skipped })
+  );
+}
+
+/**
+ * Packs the preamble and file sections, in order, into parts that stay under
+ * the limit. A file is only split when it alone exceeds the limit; the
+ * preamble (file tree) always stays whole in part 1.
+ */
+function splitIntoParts(
+  format: OutputFormat,
+  preamble: string,
+  files: ExtractedFile[],
+  sections: string[],
+  split: SplitOptions,
+  tokenizer: Tokenizer
+): OutputPart[] {
+  const measure: Measure = split.unit === 'tokens'
+    ? (text) => tokenizer.countTokens(text)
+    : (text) => text.length;
+
+  // Reserve room for the widest header the output could plausibly need
+  const budget = split.limit - measure(format.partHeader(9999, 9999));
+  if (budget <= 0) {
+    throw new Error('Split limit is too small to fit a part header');
+  }
+
+  const groups: string[][] = [];
+  let current: string[] = [preamble];
+  let currentSize = measure(preamble);
+
+  const startPart = () => {
+    if (current.length > 0) {
+      groups.push(current);
+    }
+    current = [];
+    currentSize = 0;
+  };
+
+  sections.forEach((section, index) => {
+    const size = measure(section);
+    if (size <= budget) {
+      if (current.length > 0 && currentSize + size > budget) {
+        startPart();
+      }
+      current.push(section);
+      currentSize += size;
+      return;
+    }
+
+    // Each piece after the first fills a part of its own
+    splitFileSection(format, files[index], budget - currentSize, budget, measure).forEach((piece, pieceIndex) => {
+      if (pieceIndex > 0) {
+        startPart();
+      }
+      if (piece) {
+        current.push(piece);
+        currentSize += measure(piece);
+      }
+    });
+  });
+  if (current.length > 0) {
+    groups.push(current);
+  }
+
+  return groups.map((group, index) => {
+    const content = format.partHeader(index + 1, groups.length) + group.join('');
+    return { content, tokens: tokenizer.countTokens(content) };
+  });
+}
+
+export function renderOutput(fileTree: FileTreeNode[], files: ExtractedFile[], options: RenderOptions): RenderedOutput {
+  const { tokenizer } = options;
+  const format = OUTPUT_FORMATS[options.format ?? 'markdown'];
+  const preamble = format.preamble(fileTree);
+  const sections = files.map(file => format.fileSection(file));
+
+  // Sections start on a line boundary, where BPE never merges across, so
+  // counting each piece separately sums to the count for the whole output
+  const fileTokens = new Map<string, number>();
+  let totalTokens = tokenizer.countTokens(preamble);
+  sections.forEach((section, index) => {
+    const tokens = tokenizer.countTokens(section);
+    fileTokens.set(files[index].path, tokens);
+    totalTokens += tokens;
+  });
+
+  return {
+    formattedContent: preamble + sections.join(''),
+    parts: options.split ? splitIntoParts(format, preamble, files, sections, options.split, tokenizer) : undefined,
+    totalTokens,
+    fileTokens
+  };
+}
+
+// Sets `tokens` on every file node in the output and sums them up folders;
+// returns the subtree total
+export function annotateTreeTokens(nodes: FileTreeNode[], fileTokens: Map<string, number>): number {
+  let total = 0;
+  nodes.forEach(node => {
+    const tokens = node.type === 'folder'
+      ? annotateTreeTokens(node.children ?? [], fileTokens)
+      : fileTokens.get(node.path) ?? 0;
+
+    if (tokens > 0) {
+      node.tokens = tokens;
+    } else {
+      delete node.tokens;
+    }
+    total += tokens;
+  });
+  return total;
+}
@@ -0,0 +1,77 @@
+import ignore, { type Ignore } from "ignore";
+import path from "path";
+import type { ArchiveEntry } from "./archive";
+
+interface GitignoreFile {
+  // Directory containing the .gitignore, with a trailing slash ('' for the archive root)
+  baseDir: string;
+  rules: Ignore;
+}
+
+/**
+ * Applies every .gitignore found in an archive with git's precedence rules:
+ * patterns are relative to the directory holding the .gitignore, deeper files
+ * override shallower ones, and nothing inside an ignored directory can be
+ * re-included by a negation.
+ */
+export class GitignoreMatcher {
+  private files: GitignoreFile[];
+  private cache: Map<string, boolean>;
+
+  constructor(files: GitignoreFile[]) {
+    // Shallowest first, so deeper files get the last word
+    this.files = [...files].sort((a, b) => a.baseDir.split('/').length - b.baseDir.split('/').length);
+    this.cache = new Map();
+  }
+
+  static fromEntries(entries: ArchiveEntry[]): GitignoreMatcher {
+    const files: GitignoreFile[] = [];
+
+    entries.forEach(entry => {
+      if (entry.isDirectory || path.posix.basename(entry.path) !== '.gitignore') return;
+
+      const dir = path.posix.dirname(entry.path);
+      try {
+        files.push({
+          baseDir: dir === '.' ? '' : `${dir}/`,
+          rules: ignore().add(entry.getData().toString('utf8'))
+        });
+      } catch (error) {
+        console.error(`Error reading ${entry.path}:`, error);
+      }
+    });
+
+    return new GitignoreMatcher(files);
+  }
+
+  isIgnored(entryPath: string, isDirectory: boolean): boolean {
+    const parts = entryPath.split('/').filter(part => part.length > 0);
+
+    // A file is excluded as soon as any of its parent directories is
+    for (let i = 1; i < parts.length; i++) {
+      if (this.matches(parts.slice(0, i).join('/'), true)) return true;
+    }
+    return this.matches(parts.join('/'), isDirectory);
+  }
+
+  private matches(entryPath: string, isDirectory: boolean): boolean {
+    const key = isDirectory ? `${entryPath}/` : entryPath;
+    const cached = this.cache.get(key);
+    if (cached !== undefined) return cached;
+
+    let ignored = false;
+    this.files.forEach(file => {
+      if (!key.startsWith(file.baseDir) || key === file.baseDir) return;
+
+      const result = file.rules.test(key.substring(file.baseDir.length));
+      if (result.ignored) {
+        ignored = true;
+      } else if (result.unignored) {
+        ignored = false;
+      }
+    });
+
+    this.cache.set(key, ignored);
+    return ignored;
+  }
+}
@@ -3,6 +3,8 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Render requests may carry long file path lists (the `selection` option)
+app.use('/api/processed', express.json({ limit: '10mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -0,0 +1,147 @@
+import path from "path";
+
+const EXTENSION_LANGUAGES: { [key: string]: string } = {
+  '.js': 'javascript',
+  '.jsx': 'jsx',
+  '.ts': 'typescript',
+  '.tsx': 'tsx',
+  '.py': 'python',
+  '.java': 'java',
+  '.cpp': 'cpp',
+  '.c': 'c',
+  '.h': 'c',
+  '.cs': 'csharp',
+  '.php': 'php',
+  '.rb': 'ruby',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.swift': 'swift',
+  '.kt': 'kotlin',
+  '.scala': 'scala',
+  '.clj': 'clojure',
+  '.hs': 'haskell',
+  '.html': 'html',
+  '.htm': 'html',
+  '.css': 'css',
+  '.scss': 'scss',
+  '.sass': 'sass',
+  '.less': 'less',
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+  '.ini': 'ini',
+  '.cfg': 'ini',
+  '.xml': 'xml',
+  '.svg': 'xml',
+  '.md': 'markdown',
+  '.rst': 'rst',
+  '.tex': 'latex',
+  '.sql': 'sql',
+  '.sh': 'bash',
+  '.bat': 'batch',
+  '.ps1': 'powershell',
+  '.dockerfile': 'dockerfile'
+};
+
+// Well-known files identified by name rather than extension (lower-cased)
+const FILENAME_LANGUAGES: { [key: string]: string } = {
+  'dockerfile': 'dockerfile',
+  'containerfile': 'dockerfile',
+  'makefile': 'makefile',
+  'gnumakefile': 'makefile',
+  'cmakelists.txt': 'cmake',
+  'jenkinsfile': 'groovy',
+  'gemfile': 'ruby',
+  'rakefile': 'ruby',
+  'podfile': 'ruby',
+  'vagrantfile': 'ruby',
+  'brewfile': 'ruby',
+  'guardfile': 'ruby',
+  'fastfile': 'ruby',
+  'tiltfile': 'python',
+  'snakefile': 'python',
+  'sconstruct': 'python',
+  'sconscript': 'python',
+  'build.bazel': 'starlark',
+  'workspace.bazel': 'starlark',
+  'justfile': 'just',
+  'caddyfile': 'caddyfile',
+  'procfile': 'text',
+  'license': 'text',
+  'licence': 'text',
+  'copying': 'text',
+  'notice': 'text',
+  'authors': 'text',
+  'contributors': 'text',
+  'changelog': 'text',
+  'readme': 'text',
+  'go.mod': 'go'
+};
+
+// Interpreter names from a `#!` line, after stripping version suffixes
+const INTERPRETER_LANGUAGES: { [key: string]: string } = {
+  'sh': 'bash',
+  'bash': 'bash',
+  'dash': 'bash',
+  'zsh': 'bash',
+  'ksh': 'bash',
+  'fish': 'fish',
+  'python': 'python',
+  'node': 'javascript',
+  'nodejs': 'javascript',
+  'deno': 'typescript',
+  'bun': 'typescript',
+  'tsx': 'typescript',
+  'ts-node': 'typescript',
+  'ruby': 'ruby',
+  'perl': 'perl',
+  'php': 'php',
+  'lua': 'lua',
+  'awk': 'awk',
+  'gawk': 'awk',
+  'tclsh': 'tcl',
+  'pwsh': 'powershell',
+  'rscript': 'r'
+};
+
+export function getLanguageFromExtension(ext: string): string {
+  return EXTENSION_LANGUAGES[ext] || 'text';
+}
+
+/**
+ * Recognizes special-name files such as Dockerfile, Makefile or LICENSE,
+ * including variants like `Dockerfile.dev` and `api.Dockerfile`.
+ */
+export function getLanguageFromFilename(filename: string): string | undefined {
+  const name = path.posix.basename(filename).toLowerCase();
+  if (FILENAME_LANGUAGES[name]) {
+    return FILENAME_LANGUAGES[name];
+  }
+
+  const stem = name.substring(0, name.indexOf('.'));
+  if (stem === 'dockerfile' || stem === 'containerfile' || name.endsWith('.dockerfile')) {
+    return 'dockerfile';
+  }
+  if (stem === 'makefile') {
+    return 'makefile';
+  }
+  return undefined;
+}
+
+export function getLanguageFromShebang(content: string): string | undefined {
+  if (!content.startsWith('#!')) return undefined;
+
+  const lineEnd = content.indexOf('\n');
+  const line = content.substring(2, Math.min(lineEnd === -1 ? content.length : lineEnd, 256)).trim();
+  const [command, ...args] = line.split(/\s+/);
+
+  // `#!/usr/bin/env [-S] node --flag` names the interpreter in its arguments
+  let interpreter = path.posix.basename(command || '');
+  if (interpreter === 'env') {
+    interpreter = args.find(arg => !arg.startsWith('-') && !arg.includes('=')) ?? '';
+  }
+
+  const name = interpreter.toLowerCase().replace(/[\d.]+$/, '');
+  return INTERPRETER_LANGUAGES[name];
+}
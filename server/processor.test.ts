@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { extractFiles, retainEntries } from "./processor";
+import { uploadOptionsSchema } from "@shared/schema";
+import type { ArchiveReader } from "./archive";
+
+function makeArchive(files: Record<string, string>): ArchiveReader {
+  return {
+    format: 'zip',
+    getEntries: () => Object.entries(files).map(([path, content]) => ({
+      path,
+      isDirectory: false,
+      size: content.length,
+      getData: () => Buffer.from(content)
+    }))
+  };
+}
+
+const ARCHIVE = {
+  'project/.env': 'SECRET=1\n',
+  'project/.npmrc': '//registry.npmjs.org/:_authToken=abc\n',
+  'project/.env.example': 'SECRET=\n',
+  'project/src/index.ts': 'export const a = 1;\n'
+};
+
+describe('retainEntries', () => {
+  it('never reads dot-paths the upload hides', () => {
+    const entries = retainEntries(makeArchive(ARCHIVE), { allow: [], deny: [] });
+    expect(entries.map(entry => entry.path)).toEqual(['project/.env.example', 'project/src/index.ts']);
+  });
+
+  it('keeps dot-paths the upload allows explicitly', () => {
+    const entries = retainEntries(makeArchive(ARCHIVE), { allow: ['.env'], deny: [] });
+    expect(entries.find(entry => entry.path === 'project/.env')?.content).toBe('SECRET=1\n');
+  });
+
+  it('cannot reveal a hidden dot-path when re-rendering', () => {
+    const entries = retainEntries(makeArchive(ARCHIVE), { allow: [], deny: [] });
+    const options = uploadOptionsSchema.parse({ dotPaths: { allow: ['.env', '.npmrc'], deny: [] } });
+    const { files } = extractFiles(entries, options);
+    expect(files.map(file => file.path)).toEqual(['.env.example', 'src/index.ts']);
+  });
+});
@@ -0,0 +1,269 @@
+import path from "path";
+import { GitignoreMatcher } from "./gitignore";
+import { createDotPathPolicy, createPathFilter } from "./filters";
+import { decodeText } from "./content";
+import { getLanguageFromExtension, getLanguageFromFilename, getLanguageFromShebang } from "./languages";
+import type { ArchiveReader } from "./archive";
+import type { ExtractedFile, FileTreeNode, RetainedEntry, UploadOptions } from "@shared/schema";
+
+// File extensions to include in processing
+const ALLOWED_EXTENSIONS = new Set([
+  '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.cpp', '.c', '.h', '.cs',
+  '.php', '.rb', '.go', '.rs', '.swift', '.kt', '.scala', '.clj', '.hs',
+  '.html', '.htm', '.css', '.scss', '.sass', '.less', '.xml', '.svg',
+  '.json', '.yaml', '.yml', '.toml', '.ini', '.cfg', '.config',
+  '.md', '.txt', '.rst', '.adoc', '.tex',
+  '.sql', '.sh', '.bat', '.ps1', '.dockerfile',
+  // Extensionless dot-files, whose whole name is treated as the extension
+  '.gitignore', '.gitattributes', '.dockerignore', '.editorconfig', '.npmignore',
+  '.eslintrc', '.eslintignore', '.prettierrc', '.prettierignore', '.stylelintrc',
+  '.babelrc', '.browserslistrc', '.swcrc', '.nvmrc', '.node-version', '.flake8', '.pylintrc'
+]);
+
+// Files to include by exact name when their extension alone is not enough
+const ALLOWED_FILENAMES = new Set([
+  '.env.example', '.env.sample', '.env.template', '.clang-format', '.clang-tidy'
+]);
+
+// Directories and files to ignore. Other dot-prefixed names (.vscode, .env)
+// are handled by the dot-path policy instead, so users can opt them in; VCS
+// metadata and build caches are dropped here, before anything is decoded
+// or stored, since they are large and never useful context.
+const IGNORE_PATTERNS = new Set([
+  'node_modules', 'dist', 'build', 'target',
+  'coverage', 'logs',
+  '__pycache__', 'venv', 'env',
+  'Thumbs.db',
+  '.git', '.hg', '.svn',
+  '.next', '.nuxt', '.cache', '.parcel-cache', '.turbo',
+  '.tox', '.venv', '.pytest_cache', '.mypy_cache', '.nyc_output'
+]);
+
+function isBuiltInIgnored(filePath: string): boolean {
+  return filePath.split('/').some(part => IGNORE_PATTERNS.has(part));
+}
+
+function isHiddenDotPath(filePath: string, isDotPathVisible: (name: string) => boolean): boolean {
+  return filePath.split('/').some(part => part.startsWith('.') && !isDotPathVisible(part));
+}
+
+/**
+ * Decides whether a file's content is included and which fence language it
+ * gets: shebang for extensionless scripts, then special names (Dockerfile,
+ * Makefile, LICENSE), then the extension allow-list, then any dot-file.
+ * Undefined means skip.
+ */
+function resolveFileLanguage(filename: string, content: string): string | undefined {
+  if (!path.extname(filename)) {
+    const fromShebang = getLanguageFromShebang(content);
+    if (fromShebang) return fromShebang;
+  }
+
+  const fromFilename = getLanguageFromFilename(filename);
+  if (fromFilename) return fromFilename;
+
+  const ext = getFileExtension(filename);
+  if (ALLOWED_EXTENSIONS.has(ext) || ALLOWED_FILENAMES.has(filename.toLowerCase())) {
+    return getLanguageFromExtension(ext);
+  }
+
+  // Other text dot-files (`.env.local`, `.python-version`) are included too:
+  // retainEntries only reads the ones the upload's dot-path policy shows, so
+  // one the defaults or `dotPaths.allow` let through gets its content
+  if (filename.startsWith('.')) {
+    return getLanguageFromExtension(ext);
+  }
+  return undefined;
+}
+
+function getFileExtension(filename: string): string {
+  const ext = path.extname(filename).toLowerCase();
+  // path.extname('.gitignore') is '', but the name itself acts as the extension
+  if (!ext && filename.startsWith('.')) {
+    return filename.toLowerCase();
+  }
+  return ext;
+}
+
+// Find common root prefix to remove (usually the archive name)
+function findCommonPrefix(entries: RetainedEntry[]): string {
+  if (entries.length === 0) return '';
+
+  const firstPath = entries[0].path;
+  const firstSlash = firstPath.indexOf('/');
+  if (firstSlash > 0) {
+    const potentialPrefix = firstPath.substring(0, firstSlash + 1);
+    if (entries.every(entry => entry.path.startsWith(potentialPrefix))) {
+      return potentialPrefix;
+    }
+  }
+  return '';
+}
+
+function buildFileTree(entries: RetainedEntry[], commonPrefix: string): FileTreeNode[] {
+  const root: { [key: string]: any } = {};
+  
+  // Sort entries (already filtered by extractFiles)
+  const validEntries = [...entries]
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  validEntries.forEach(entry => {
+    // Remove common prefix from entry name
+    const cleanPath = entry.path.startsWith(commonPrefix) 
+      ? entry.path.substring(commonPrefix.length)
+      : entry.path;
+    
+    const parts = cleanPath.split('/').filter(part => part.length > 0);
+    if (parts.length === 0) return; // Skip empty paths
+    
+    let current = root;
+
+    parts.forEach((part, index) => {
+      if (!current[part]) {
+        const isFile = index === parts.length - 1 && !entry.isDirectory;
+        current[part] = {
+          name: part,
+          path: parts.slice(0, index + 1).join('/'),
+          type: isFile ? 'file' : 'folder',
+          size: isFile ? entry.size : undefined,
+          extension: isFile ? getFileExtension(part) : undefined,
+          children: isFile ? undefined : {}
+        };
+      }
+      if (index < parts.length - 1) {
+        current = current[part].children;
+      }
+    });
+  });
+
+  function convertToArray(node: any): FileTreeNode[] {
+    return Object.values(node).map((item: any) => ({
+      ...item,
+      children: item.children ? convertToArray(item.children) : undefined
+    }));
+  }
+
+  return convertToArray(root);
+}
+
+export interface ExtractedArchive {
+  fileTree: FileTreeNode[];
+  // Text files whose content goes into the output, in tree order
+  files: ExtractedFile[];
+  totalFiles: number;
+  totalFolders: number;
+  binaryFiles: number;
+}
+
+/**
+ * Reads everything the per-upload options could ever select: entries not
+ * dropped by the built-in ignore list, a .gitignore or the upload's dot-path
+ * policy, with text content decoded once. Stored with the result so it can
+ * be re-rendered with other options after the archive itself is gone.
+ * Dot-paths hidden at upload time (`.env` by default) are never read, so a
+ * later render cannot reveal them by allowing more.
+ */
+export function retainEntries(archive: ArchiveReader, dotPaths: UploadOptions['dotPaths']): RetainedEntry[] {
+  const entries = archive.getEntries();
+  const gitignore = GitignoreMatcher.fromEntries(entries);
+  const isDotPathVisible = createDotPathPolicy(dotPaths);
+
+  return entries
+    .filter(entry => !isBuiltInIgnored(entry.path) && !gitignore.isIgnored(entry.path, entry.isDirectory))
+    .filter(entry => !isHiddenDotPath(entry.path, isDotPathVisible))
+    .map(entry => {
+      const retained: RetainedEntry = { path: entry.path, isDirectory: entry.isDirectory, size: entry.size };
+      if (entry.isDirectory) return retained;
+
+      try {
+        // Transcoded to UTF-8; null means binary, which stays in the tree,
+        // marked, but never reaches the output
+        const decoded = decodeText(entry.getData());
+        if (!decoded) {
+          retained.binary = true;
+          return retained;
+        }
+
+        const language = resolveFileLanguage(path.posix.basename(entry.path), decoded.text);
+        if (language && decoded.text.trim()) {
+          retained.language = language;
+          retained.encoding = decoded.encoding;
+          retained.content = decoded.text;
+        }
+      } catch (error) {
+        console.error(`Error processing file ${entry.path}:`, error);
+      }
+      return retained;
+    });
+}
+
+/**
+ * Applies the per-upload filters (dot-paths, include/exclude globs, file
+ * selection or deselection) to the retained entries, builds the file tree
+ * and collects the files that belong in the output. Rendering is left to
+ * the formatter.
+ */
+export function extractFiles(retained: RetainedEntry[], options: UploadOptions): ExtractedArchive {
+  const isDotPathVisible = createDotPathPolicy(options.dotPaths);
+  const candidates = retained.filter(entry => !isHiddenDotPath(entry.path, isDotPathVisible));
+
+  // Resolve the project root first so user globs are relative to it
+  const commonPrefix = findCommonPrefix(candidates);
+  const pathFilter = createPathFilter(options);
+  const selection = options.selection ? new Set(options.selection) : undefined;
+  const deselection = options.deselection ? new Set(options.deselection) : undefined;
+  const entries = candidates.filter(entry => {
+    const relativePath = entry.path.substring(commonPrefix.length);
+    if (!pathFilter(relativePath, entry.isDirectory)) return false;
+    // Selections list files only; their folders follow from the paths
+    if ((selection || deselection) && entry.isDirectory) return false;
+    return (!selection || selection.has(relativePath)) && !deselection?.has(relativePath);
+  });
+  const entriesByPath = new Map(entries.map(entry => [entry.path, entry]));
+
+  const fileTree = buildFileTree(entries, commonPrefix);
+  const files: ExtractedFile[] = [];
+
+  let totalFiles = 0;
+  let totalFolders = 0;
+  let binaryFiles = 0;
+
+  function processNode(node: FileTreeNode) {
+    if (node.type === 'folder') {
+      totalFolders++;
+      if (node.children) {
+        node.children.forEach(processNode);
+      }
+      return;
+    }
+
+    totalFiles++;
+    // Find entry by matching the original path (with common prefix)
+    const entry = entriesByPath.get(commonPrefix + node.path);
+    if (!entry || entry.isDirectory) return;
+
+    if (entry.binary) {
+      node.binary = true;
+      binaryFiles++;
+      return;
+    }
+
+    if (entry.content !== undefined && entry.language && entry.encoding) {
+      node.language = entry.language;
+      node.encoding = entry.encoding;
+      node.lines = entry.content.split('\n').length;
+      files.push({
+        path: node.path,
+        language: entry.language,
+        encoding: entry.encoding,
+        size: entry.size,
+        lines: node.lines,
+        content: entry.content
+      });
+    }
+  }
+
+  fileTree.forEach(processNode);
+
+  return { fileTree, files, totalFiles, totalFolders, binaryFiles };
+}
@@ -0,0 +1,88 @@
+import { storage } from "./storage";
+import { blobReferenceLock, blobStore, getBlobReferences } from "./blob-store";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// RETENTION_DAYS: uploads older than this are purged; unset or 0 keeps them forever
+function parseRetentionDays(raw: string | undefined): number | null {
+  if (raw === undefined || raw.trim() === '') return null;
+  const days = Number(raw);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`Invalid RETENTION_DAYS "${raw}"; expected a number of days, or 0 to keep uploads forever`);
+  }
+  return days === 0 ? null : days;
+}
+
+// Null when uploads are kept forever
+export const retentionDays = parseRetentionDays(process.env.RETENTION_DAYS);
+
+// Deletes the given blobs unless a stored result references them; returns
+// how many were deleted
+export async function collectBlobs(candidates: string[]): Promise<number> {
+  const unique = Array.from(new Set(candidates));
+  // No upload may save references while this decides what is unused
+  return blobReferenceLock.exclusive(async () => {
+    const stillReferenced = await storage.findReferencedBlobs(unique);
+    const unreferenced = unique.filter(hash => !stillReferenced.has(hash));
+    for (const hash of unreferenced) {
+      await blobStore.delete(hash);
+    }
+    return unreferenced.length;
+  });
+}
+
+/**
+ * Deletes an upload with its processed files, then the blobs they referenced
+ * unless another result shares them. Returns false when there is no such upload.
+ */
+export async function deleteUpload(id: number): Promise<boolean> {
+  const deleted = await storage.deleteUpload(id);
+  if (!deleted) return false;
+
+  await collectBlobs(deleted.flatMap(getBlobReferences));
+  return true;
+}
+
+export async function purgeExpiredUploads(now = new Date()): Promise<number> {
+  if (retentionDays === null) return 0;
+
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+  const ids = await storage.listUploadIdsBefore(cutoff);
+  for (const id of ids) {
+    await deleteUpload(id);
+  }
+  return ids.length;
+}
+
+/**
+ * Deletes blob files no stored result references, e.g. left by a crash
+ * between writing an upload's blobs and saving its result. Blobs written
+ * within the last sweep interval are left alone, since another process
+ * sharing BLOB_DIR may be about to reference them.
+ */
+export async function collectOrphanedBlobs(now = new Date()): Promise<number> {
+  return collectBlobs(await blobStore.list(new Date(now.getTime() - SWEEP_INTERVAL_MS)));
+}
+
+// Purges expired uploads and orphaned blobs now and then every hour, without
+// keeping the process alive
+export function startRetentionSweeper(): void {
+  const sweep = async () => {
+    try {
+      const purged = await purgeExpiredUploads();
+      if (purged > 0) {
+        console.log(`Retention: purged ${purged} upload(s) older than ${retentionDays} days`);
+      }
+      const orphans = await collectOrphanedBlobs();
+      if (orphans > 0) {
+        console.log(`Retention: deleted ${orphans} unreferenced blob(s)`);
+      }
+    } catch (error) {
+      console.error('Retention sweep error:', error);
+    }
+  };
+
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
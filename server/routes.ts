@@ -1,11 +1,19 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
+import { once } from "events";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
 import { storage } from "./storage";
+import { blobReferenceLock, blobStore, hashBlob, loadEntries, storeEntries } from "./blob-store";
+import { collectBlobs, deleteUpload, retentionDays, startRetentionSweeper } from "./retention";
 import multer from "multer";
-import AdmZip from "adm-zip";
-import path from "path";
 import fs from "fs";
-import { insertUploadSchema, insertProcessedFileSchema, type FileTreeNode, type ProcessingStats } from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
+import { getTokenizer, getTokenizerNames } from "./tokenizer";
+import { extractFiles, retainEntries } from "./processor";
+import { annotateTreeTokens, renderOutput } from "./formatter";
+import { ArchiveError, getArchiveMimeType, openArchive, sniffArchiveFormat } from "./archive";
+import { insertUploadSchema, insertProcessedFileSchema, outputFormatSchema, splitOptionsSchema, uploadListQuerySchema, uploadOptionsSchema, type OutputFormatName, type ProcessedExport, type ProcessedFile, type ProcessedOutput, type ProcessingStats, type RetainedEntry, type ServerSettings, type SplitOptions, type StoredEntry, type UploadErrorResponse, type UploadListResponse, type UploadOptions } from "@shared/schema";
 
 // Configure multer for file uploads
 const upload = multer({
@@ -13,278 +21,209 @@ const upload = multer({
   limits: {
     fileSize: 100 * 1024 * 1024, // 100MB limit
   },
-  fileFilter: (req, file, cb) => {
-    if (file.mimetype === 'application/zip' || file.mimetype === 'application/x-zip-compressed') {
-      cb(null, true);
-    } else {
-      cb(new Error('Only ZIP files are allowed'));
+  // No MIME filtering here: the archive format is sniffed from its magic
+  // bytes once the upload is stored
+});
+
+// Parse the JSON `options` form field; a missing field means defaults
+function parseUploadOptions(raw: unknown): UploadOptions {
+  let value: unknown = {};
+  if (typeof raw === 'string' && raw.trim()) {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new Error('Invalid upload options: not valid JSON');
     }
   }
-});
+  return validateUploadOptions(value);
+}
 
-// File extensions to include in processing
-const ALLOWED_EXTENSIONS = new Set([
-  '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.cpp', '.c', '.h', '.cs',
-  '.php', '.rb', '.go', '.rs', '.swift', '.kt', '.scala', '.clj', '.hs',
-  '.html', '.htm', '.css', '.scss', '.sass', '.less', '.xml', '.svg',
-  '.json', '.yaml', '.yml', '.toml', '.ini', '.cfg', '.config',
-  '.md', '.txt', '.rst', '.adoc', '.tex',
-  '.sql', '.sh', '.bat', '.ps1', '.dockerfile', '.gitignore', '.env'
-]);
-
-// Directories and files to ignore
-const IGNORE_PATTERNS = new Set([
-  'node_modules', '.git', '.svn', '.hg', 'dist', 'build', 'target',
-  '.next', '.nuxt', 'coverage', '.nyc_output', '.cache', 'logs',
-  '__pycache__', '.pytest_cache', '.tox', 'venv', 'env',
-  '.DS_Store', 'Thumbs.db', '.vscode', '.idea'
-]);
-
-function shouldIgnore(filePath: string): boolean {
-  const parts = filePath.split('/');
-  return parts.some(part => IGNORE_PATTERNS.has(part) || part.startsWith('.'));
+function validateUploadOptions(value: unknown): UploadOptions {
+  const result = uploadOptionsSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(fromZodError(result.error, { prefix: 'Invalid upload options' }).message);
+  }
+  if (!getTokenizer(result.data.tokenizer)) {
+    throw new Error(`Invalid upload options: unknown tokenizer "${result.data.tokenizer}" (available: ${getTokenizerNames().join(', ')})`);
+  }
+  return result.data;
 }
 
-function getFileExtension(filename: string): string {
-  return path.extname(filename).toLowerCase();
+interface RenderQuery {
+  format?: OutputFormatName;
+  // Undefined leaves the stored split option alone; null turns splitting off
+  split?: SplitOptions | null;
 }
 
-function buildFileTree(entries: AdmZip.IZipEntry[]): FileTreeNode[] {
-  const root: { [key: string]: any } = {};
-  
-  // Filter and sort entries
-  const validEntries = entries
-    .filter(entry => !shouldIgnore(entry.entryName))
-    .sort((a, b) => a.entryName.localeCompare(b.entryName));
-
-  // Find common root prefix to remove (usually the ZIP file name)
-  let commonPrefix = '';
-  if (validEntries.length > 0) {
-    const firstPath = validEntries[0].entryName;
-    const firstSlash = firstPath.indexOf('/');
-    if (firstSlash > 0) {
-      const potentialPrefix = firstPath.substring(0, firstSlash + 1);
-      if (validEntries.every(entry => entry.entryName.startsWith(potentialPrefix))) {
-        commonPrefix = potentialPrefix;
-      }
+// `format`, `splitLimit` and `splitUnit` query parameters override the stored
+// options; `splitLimit=0` asks for the whole output in one piece
+function parseRenderQuery(query: { [key: string]: unknown }): RenderQuery {
+  const renderQuery: RenderQuery = {};
+
+  if (query.format !== undefined) {
+    const result = outputFormatSchema.safeParse(query.format);
+    if (!result.success) {
+      throw new Error(fromZodError(result.error, { prefix: 'Invalid format' }).message);
     }
+    renderQuery.format = result.data;
   }
 
-  validEntries.forEach(entry => {
-    // Remove common prefix from entry name
-    const cleanPath = entry.entryName.startsWith(commonPrefix) 
-      ? entry.entryName.substring(commonPrefix.length)
-      : entry.entryName;
-    
-    const parts = cleanPath.split('/').filter(part => part.length > 0);
-    if (parts.length === 0) return; // Skip empty paths
-    
-    let current = root;
-
-    parts.forEach((part, index) => {
-      if (!current[part]) {
-        const isFile = index === parts.length - 1 && !entry.isDirectory;
-        current[part] = {
-          name: part,
-          path: parts.slice(0, index + 1).join('/'),
-          type: isFile ? 'file' : 'folder',
-          size: isFile ? entry.header.size : undefined,
-          extension: isFile ? getFileExtension(part) : undefined,
-          children: isFile ? undefined : {}
-        };
-      }
-      if (index < parts.length - 1) {
-        current = current[part].children;
-      }
-    });
-  });
-
-  function convertToArray(node: any): FileTreeNode[] {
-    return Object.values(node).map((item: any) => ({
-      ...item,
-      children: item.children ? convertToArray(item.children) : undefined
-    }));
+  if (query.splitLimit === '0') {
+    renderQuery.split = null;
+  } else if (query.splitLimit !== undefined) {
+    const result = splitOptionsSchema.safeParse({ limit: query.splitLimit, unit: query.splitUnit });
+    if (!result.success) {
+      throw new Error(fromZodError(result.error, { prefix: 'Invalid split options' }).message);
+    }
+    renderQuery.split = result.data;
   }
 
-  return convertToArray(root);
+  return renderQuery;
 }
 
-function formatFileContent(filename: string, content: string): string {
-  const extension = getFileExtension(filename);
-  const language = getLanguageFromExtension(extension);
-  
-  return `### ${filename}\n\`\`\`${language}\n${content}\n\`\`\`\n\n`;
+/**
+ * Selects, renders and summarizes retained entries. Shared by uploads and by
+ * re-renders of stored results, which reuse the original archive size.
+ */
+function buildProcessedOutput(retained: RetainedEntry[], options: UploadOptions, fileSize: string, startTime: number) {
+  const { fileTree, files, totalFiles, totalFolders, binaryFiles } = extractFiles(retained, options);
+
+  const tokenizer = getTokenizer(options.tokenizer)!;
+  const { formattedContent, parts, totalTokens, fileTokens } = renderOutput(fileTree, files, {
+    tokenizer,
+    format: options.format,
+    split: options.split
+  });
+  annotateTreeTokens(fileTree, fileTokens);
+
+  const processingTime = ((Date.now() - startTime) / 1000).toFixed(1);
+
+  const stats: ProcessingStats = {
+    totalFiles,
+    totalFolders,
+    linesOfCode: files.reduce((sum, file) => sum + file.lines, 0),
+    binaryFiles,
+    totalTokens,
+    tokenizer: tokenizer.name,
+    fileSize,
+    processingTime: `${processingTime}s`
+  };
+
+  return { fileTree, files, formattedContent, parts, stats };
 }
 
-function getLanguageFromExtension(ext: string): string {
-  const langMap: { [key: string]: string } = {
-    '.js': 'javascript',
-    '.jsx': 'jsx',
-    '.ts': 'typescript',
-    '.tsx': 'tsx',
-    '.py': 'python',
-    '.java': 'java',
-    '.cpp': 'cpp',
-    '.c': 'c',
-    '.h': 'c',
-    '.cs': 'csharp',
-    '.php': 'php',
-    '.rb': 'ruby',
-    '.go': 'go',
-    '.rs': 'rust',
-    '.swift': 'swift',
-    '.kt': 'kotlin',
-    '.scala': 'scala',
-    '.html': 'html',
-    '.htm': 'html',
-    '.css': 'css',
-    '.scss': 'scss',
-    '.sass': 'sass',
-    '.json': 'json',
-    '.yaml': 'yaml',
-    '.yml': 'yaml',
-    '.xml': 'xml',
-    '.svg': 'xml',
-    '.md': 'markdown',
-    '.sql': 'sql',
-    '.sh': 'bash',
-    '.dockerfile': 'dockerfile'
-  };
-  
-  return langMap[ext] || 'text';
+// Renders a stored result from its retained entries with the given options
+async function renderStoredResult(processedFile: ProcessedFile, options: UploadOptions) {
+  const { fileSize } = processedFile.stats as ProcessingStats;
+  const entries = await loadEntries(processedFile.entries as StoredEntry[]);
+  const { fileTree, formattedContent, parts, stats } = buildProcessedOutput(entries, options, fileSize, Date.now());
+  return { uploadId: processedFile.uploadId, fileTree, formattedContent, parts, stats, options };
 }
 
-function generateFileTreeString(nodes: FileTreeNode[], prefix = '', isLast = true): string {
-  let result = '';
-  
-  nodes.forEach((node, index) => {
-    const isLastItem = index === nodes.length - 1;
-    const connector = isLastItem ? '└── ' : '├── ';
-    const icon = node.type === 'folder' ? '📁 ' : '📄 ';
-    
-    result += `${prefix}${connector}${icon}${node.name}\n`;
-    
-    if (node.children && node.children.length > 0) {
-      const newPrefix = prefix + (isLastItem ? '    ' : '│   ');
-      result += generateFileTreeString(node.children, newPrefix, isLastItem);
+/**
+ * Sends a stored result as JSON without reading its output into memory: the
+ * other fields are serialized up front and the output blob is escaped into
+ * the `formattedContent` string chunk by chunk.
+ */
+async function streamStoredResult(res: Response, result: Omit<ProcessedOutput, 'formattedContent'>, outputBlob: string) {
+  const output = blobStore.createReadStream(outputBlob);
+  // Fail before anything is sent when the blob is missing
+  await once(output, 'open');
+
+  // Escapes each chunk as the inside of a JSON string and closes the object
+  const escape = new Transform({
+    decodeStrings: false,
+    transform(chunk: string, _encoding, callback) {
+      callback(null, JSON.stringify(chunk).slice(1, -1));
+    },
+    flush(callback) {
+      callback(null, '"}');
     }
   });
-  
-  return result;
+
+  const head = JSON.stringify(result);
+  res.type('application/json');
+  res.write(`${head.substring(0, head.length - 1)},"formattedContent":"`);
+  await pipeline(output, escape, res);
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Upload and process ZIP file
+  startRetentionSweeper();
+
+  app.get('/api/settings', (_req, res) => {
+    const body: ServerSettings = { retentionDays };
+    res.json(body);
+  });
+
+  // Upload and process archive (ZIP or tarball)
   app.post('/api/upload', upload.single('file'), async (req, res) => {
+    // Set while an upload record exists without its processed result
+    let pendingUploadId: number | undefined;
+    // Content that may have reached the blob store without a stored reference
+    let pendingBlobContent: string[] | undefined;
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
       }
 
       const startTime = Date.now();
+      const options = parseUploadOptions(req.body.options);
+
+      // Identify the archive from its content; the browser-supplied MIME type
+      // is unreliable (e.g. application/octet-stream on Windows)
+      const archiveFormat = sniffArchiveFormat(req.file.path);
 
-      // Create upload record
+      // Process archive
+      const archivePath = req.file.path;
+      const archive = openArchive(archivePath, archiveFormat);
+      const entries = retainEntries(archive, options.dotPaths);
+
+      const fileSize = (req.file.size / (1024 * 1024)).toFixed(1);
+      const { fileTree, formattedContent, parts, stats } = buildProcessedOutput(entries, options, `${fileSize}MB`, startTime);
+
+      // Create upload record only once the archive has been read, so corrupt
+      // uploads never show up in the history
       const uploadData = {
         filename: req.file.filename,
         originalName: req.file.originalname,
         fileSize: req.file.size,
-        mimeType: req.file.mimetype
+        mimeType: getArchiveMimeType(archiveFormat)
       };
 
       const validatedUpload = insertUploadSchema.parse(uploadData);
       const upload = await storage.createUpload(validatedUpload);
+      pendingUploadId = upload.id;
+
+      // Save processed data; the output and file contents go to the blob
+      // store and only their hashes are kept with the result. Blob garbage
+      // collection waits until the references are saved.
+      pendingBlobContent = [formattedContent, ...entries.flatMap(entry => entry.content ?? [])];
+      await blobReferenceLock.shared(async () => {
+        const processedData = {
+          uploadId: upload.id,
+          fileTree,
+          outputBlob: await blobStore.put(formattedContent),
+          stats,
+          options,
+          entries: await storeEntries(entries)
+        };
 
-      // Process ZIP file
-      const zipPath = req.file.path;
-      const zip = new AdmZip(zipPath);
-      const entries = zip.getEntries();
-
-      // Build file tree
-      const fileTree = buildFileTree(entries);
-
-      // Process file contents
-      let formattedContent = '# Project Structure and Contents\n\n';
-      formattedContent += '## File Tree\n\n```\n';
-      formattedContent += generateFileTreeString(fileTree);
-      formattedContent += '```\n\n## File Contents\n\n';
-
-      let totalFiles = 0;
-      let totalFolders = 0;
-      let linesOfCode = 0;
-
-      function processNode(node: FileTreeNode, commonPrefix: string = '') {
-        if (node.type === 'folder') {
-          totalFolders++;
-          if (node.children) {
-            node.children.forEach(child => processNode(child, commonPrefix));
-          }
-        } else {
-          totalFiles++;
-          const ext = getFileExtension(node.name);
-          if (ALLOWED_EXTENSIONS.has(ext)) {
-            try {
-              // Find entry by matching the original path (with common prefix)
-              const originalPath = commonPrefix + node.path;
-              const entry = entries.find(e => e.entryName === originalPath || e.entryName.endsWith('/' + node.path));
-              if (entry && !entry.isDirectory) {
-                const content = entry.getData().toString('utf8');
-                if (content.trim()) {
-                  formattedContent += formatFileContent(node.path, content);
-                  linesOfCode += content.split('\n').length;
-                }
-              }
-            } catch (error) {
-              console.error(`Error processing file ${node.path}:`, error);
-            }
-          }
-        }
-      }
-
-      // Calculate common prefix for file processing
-      let commonPrefix = '';
-      if (entries.length > 0) {
-        const firstPath = entries[0].entryName;
-        const firstSlash = firstPath.indexOf('/');
-        if (firstSlash > 0) {
-          const potentialPrefix = firstPath.substring(0, firstSlash + 1);
-          if (entries.every(entry => entry.entryName.startsWith(potentialPrefix))) {
-            commonPrefix = potentialPrefix;
-          }
-        }
-      }
-
-      fileTree.forEach(node => processNode(node, commonPrefix));
-
-      const processingTime = ((Date.now() - startTime) / 1000).toFixed(1);
-      const fileSize = (req.file.size / (1024 * 1024)).toFixed(1);
-
-      const stats: ProcessingStats = {
-        totalFiles,
-        totalFolders,
-        linesOfCode,
-        fileSize: `${fileSize}MB`,
-        processingTime: `${processingTime}s`
-      };
-
-      // Save processed data
-      const processedData = {
-        uploadId: upload.id,
-        fileTree,
-        formattedContent,
-        stats
-      };
-
-      const validatedProcessed = insertProcessedFileSchema.parse(processedData);
-      const processedFile = await storage.createProcessedFile(validatedProcessed);
+        const validatedProcessed = insertProcessedFileSchema.parse(processedData);
+        await storage.createProcessedFile(validatedProcessed);
+      });
+      pendingUploadId = undefined;
+      pendingBlobContent = undefined;
 
       // Clean up uploaded file
-      fs.unlinkSync(zipPath);
+      fs.unlinkSync(archivePath);
 
       res.json({
         uploadId: upload.id,
         fileTree,
         formattedContent,
-        stats
+        parts,
+        stats,
+        options
       });
 
     } catch (error) {
@@ -295,7 +234,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         fs.unlinkSync(req.file.path);
       }
 
-      if (error instanceof Error) {
+      // Drop an upload record left without a result, then any blobs it wrote
+      // that no other result shares
+      if (pendingUploadId !== undefined) {
+        const blobContent = pendingBlobContent ?? [];
+        await storage.deleteUpload(pendingUploadId)
+          .then(() => collectBlobs(blobContent.map(hashBlob)))
+          .catch(cleanupError => {
+            console.error('Upload cleanup error:', cleanupError);
+          });
+      }
+
+      if (error instanceof ArchiveError) {
+        const status = error.code === 'UNSUPPORTED_ARCHIVE' ? 415 : 422;
+        const body: UploadErrorResponse = { error: error.message, code: error.code };
+        res.status(status).json(body);
+      } else if (error instanceof Error) {
         res.status(400).json({ error: error.message });
       } else {
         res.status(500).json({ error: 'File processing failed' });
@@ -303,25 +257,167 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List earlier uploads, newest first, a page at a time
+  app.get('/api/uploads', async (req, res) => {
+    try {
+      const result = uploadListQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ error: fromZodError(result.error, { prefix: 'Invalid query' }).message });
+      }
+
+      const query = result.data;
+      const { uploads, total } = await storage.listUploads(query);
+      const body: UploadListResponse = { uploads, total, page: query.page, pageSize: query.pageSize };
+      res.json(body);
+
+    } catch (error) {
+      console.error('List uploads error:', error);
+      res.status(500).json({ error: 'Failed to list uploads' });
+    }
+  });
+
+  // Delete an upload with its processed files and any blobs no other result uses
+  app.delete('/api/uploads/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (!await deleteUpload(id)) {
+        return res.status(404).json({ error: 'Upload not found' });
+      }
+      res.status(204).end();
+
+    } catch (error) {
+      console.error('Delete upload error:', error);
+      res.status(500).json({ error: 'Failed to delete upload' });
+    }
+  });
+
   // Get processed file by upload ID
   app.get('/api/processed/:uploadId', async (req, res) => {
     try {
       const uploadId = parseInt(req.params.uploadId);
+
+      let renderQuery: RenderQuery;
+      try {
+        renderQuery = parseRenderQuery(req.query);
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
+
       const processedFile = await storage.getProcessedFile(uploadId);
 
       if (!processedFile) {
         return res.status(404).json({ error: 'Processed file not found' });
       }
 
-      res.json({
-        fileTree: processedFile.fileTree,
-        formattedContent: processedFile.formattedContent,
-        stats: processedFile.stats
-      });
+      const storedOptions = uploadOptionsSchema.parse(processedFile.options ?? {});
+      const options: UploadOptions = { ...storedOptions, ...renderQuery };
+
+      // Parts and other formats are not stored; they are rendered on request
+      if (processedFile.entries && (options.split || options.format !== storedOptions.format)) {
+        return res.json(await renderStoredResult(processedFile, options));
+      }
+
+      await streamStoredResult(res, {
+        uploadId,
+        fileTree: processedFile.fileTree as ProcessedOutput['fileTree'],
+        stats: processedFile.stats as ProcessingStats,
+        options: storedOptions
+      }, processedFile.outputBlob);
 
     } catch (error) {
       console.error('Get processed file error:', error);
-      res.status(500).json({ error: 'Failed to retrieve processed file' });
+      // A failure while streaming has already cut the response short
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to retrieve processed file' });
+      }
+    }
+  });
+
+  // Re-render a stored result with other options, without re-uploading.
+  // The JSON body holds upload options that replace the stored ones.
+  app.post('/api/processed/:uploadId/render', async (req, res) => {
+    try {
+      const uploadId = parseInt(req.params.uploadId);
+      const processedFile = await storage.getProcessedFile(uploadId);
+
+      if (!processedFile || !processedFile.entries) {
+        return res.status(404).json({ error: 'Processed file not found' });
+      }
+
+      if (req.body === null || typeof req.body !== 'object' || Array.isArray(req.body)) {
+        return res.status(400).json({ error: 'Invalid upload options: expected a JSON object' });
+      }
+
+      const storedOptions = uploadOptionsSchema.parse(processedFile.options ?? {});
+      const options = validateUploadOptions({ ...storedOptions, ...req.body });
+
+      res.json(await renderStoredResult(processedFile, options));
+
+    } catch (error) {
+      console.error('Render processed file error:', error);
+      if (error instanceof Error) {
+        res.status(400).json({ error: error.message });
+      } else {
+        res.status(500).json({ error: 'Failed to render processed file' });
+      }
+    }
+  });
+
+  // Stream the stored output as plain text, e.g. for downloads
+  app.get('/api/processed/:uploadId/output', async (req, res) => {
+    try {
+      const uploadId = parseInt(req.params.uploadId);
+      const processedFile = await storage.getProcessedFile(uploadId);
+
+      if (!processedFile) {
+        return res.status(404).json({ error: 'Processed file not found' });
+      }
+
+      const output = blobStore.createReadStream(processedFile.outputBlob);
+      await once(output, 'open');
+      res.type('text/plain; charset=utf-8');
+      await pipeline(output, res);
+
+    } catch (error) {
+      console.error('Stream output error:', error);
+      // A failure while streaming has already cut the response short
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to stream output' });
+      }
+    }
+  });
+
+  // Export every included file with its metadata and content as JSON
+  app.get('/api/processed/:uploadId/export', async (req, res) => {
+    try {
+      const uploadId = parseInt(req.params.uploadId);
+      const upload = await storage.getUpload(uploadId);
+      const processedFile = await storage.getProcessedFile(uploadId);
+
+      if (!upload || !processedFile || !processedFile.entries) {
+        return res.status(404).json({ error: 'Processed file not found' });
+      }
+
+      const options = uploadOptionsSchema.parse(processedFile.options ?? {});
+      const tokenizer = getTokenizer(options.tokenizer)!;
+      const entries = await loadEntries(processedFile.entries as StoredEntry[]);
+      const { files } = extractFiles(entries, options);
+
+      const body: ProcessedExport = {
+        uploadId,
+        originalName: upload.originalName,
+        stats: processedFile.stats as ProcessingStats,
+        options,
+        files: files.map(file => ({
+          ...file,
+          tokens: tokenizer.countTokens(file.content)
+        }))
+      };
+      res.json(body);
+
+    } catch (error) {
+      console.error('Export processed file error:', error);
+      res.status(500).json({ error: 'Failed to export processed file' });
     }
   });
 
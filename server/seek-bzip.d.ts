@@ -0,0 +1,6 @@
+declare module "seek-bzip" {
+  const Bunzip: {
+    decode(input: Buffer, output?: Buffer | number, multistream?: boolean): Buffer;
+  };
+  export default Bunzip;
+}
@@ -1,10 +1,38 @@
-import { uploads, processedFiles, type Upload, type InsertUpload, type ProcessedFile, type InsertProcessedFile } from "@shared/schema";
+import { asc, count, desc, eq, ilike, inArray, lt, sql } from "drizzle-orm";
+import { uploads, processedFiles, type Upload, type InsertUpload, type ProcessedFile, type InsertProcessedFile, type UploadListQuery } from "@shared/schema";
+import * as sqliteSchema from "@shared/sqlite-schema";
+import { createDatabase, createSqliteDatabase, type Database, type SqliteDatabase } from "./db";
+import { getBlobReferences } from "./blob-store";
 
 export interface IStorage {
   createUpload(upload: InsertUpload): Promise<Upload>;
   getUpload(id: number): Promise<Upload | undefined>;
+  // One page of uploads sorted by uploadedAt, and the total matching the name filter
+  listUploads(query: UploadListQuery): Promise<{ uploads: Upload[]; total: number }>;
   createProcessedFile(processedFile: InsertProcessedFile): Promise<ProcessedFile>;
   getProcessedFile(uploadId: number): Promise<ProcessedFile | undefined>;
+  // Deletes the upload and its processed files, returning the latter;
+  // undefined when there is no such upload
+  deleteUpload(id: number): Promise<ProcessedFile[] | undefined>;
+  listUploadIdsBefore(cutoff: Date): Promise<number[]>;
+  // The given blob hashes that some processed file still references
+  findReferencedBlobs(hashes: string[]): Promise<Set<string>>;
+}
+
+// Keeps IN lists well below the bind parameter limits of Postgres and SQLite
+const BLOB_QUERY_BATCH = 500;
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// LIKE pattern matching the name anywhere, with wildcards in it taken literally
+function containsPattern(name: string): string {
+  return `%${name.replace(/[\\%_]/g, '\\$&')}%`;
 }
 
 export class MemStorage implements IStorage {
@@ -35,10 +63,23 @@ export class MemStorage implements IStorage {
     return this.uploads.get(id);
   }
 
+  async listUploads({ page, pageSize, order, name }: UploadListQuery): Promise<{ uploads: Upload[]; total: number }> {
+    const needle = name?.toLowerCase();
+    const direction = order === 'asc' ? 1 : -1;
+    const matching = Array.from(this.uploads.values())
+      .filter(upload => !needle || upload.originalName.toLowerCase().includes(needle))
+      .sort((a, b) => direction * (a.uploadedAt.getTime() - b.uploadedAt.getTime() || a.id - b.id));
+
+    const offset = (page - 1) * pageSize;
+    return { uploads: matching.slice(offset, offset + pageSize), total: matching.length };
+  }
+
   async createProcessedFile(insertProcessedFile: InsertProcessedFile): Promise<ProcessedFile> {
     const id = this.currentProcessedId++;
     const processedFile: ProcessedFile = {
       ...insertProcessedFile,
+      options: insertProcessedFile.options ?? null,
+      entries: insertProcessedFile.entries ?? null,
       id,
       processedAt: new Date()
     };
@@ -51,6 +92,206 @@ export class MemStorage implements IStorage {
       (file) => file.uploadId === uploadId
     );
   }
+
+  async deleteUpload(id: number): Promise<ProcessedFile[] | undefined> {
+    if (!this.uploads.delete(id)) return undefined;
+
+    const deleted: ProcessedFile[] = [];
+    this.processedFiles.forEach((file, key) => {
+      if (file.uploadId === id) {
+        this.processedFiles.delete(key);
+        deleted.push(file);
+      }
+    });
+    return deleted;
+  }
+
+  async listUploadIdsBefore(cutoff: Date): Promise<number[]> {
+    return Array.from(this.uploads.values())
+      .filter(upload => upload.uploadedAt < cutoff)
+      .map(upload => upload.id);
+  }
+
+  async findReferencedBlobs(hashes: string[]): Promise<Set<string>> {
+    const wanted = new Set(hashes);
+    const referenced = new Set<string>();
+    this.processedFiles.forEach(file => {
+      getBlobReferences(file).forEach(hash => {
+        if (wanted.has(hash)) referenced.add(hash);
+      });
+    });
+    return referenced;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const [upload] = await this.db.insert(uploads).values(insertUpload).returning();
+    return upload;
+  }
+
+  async getUpload(id: number): Promise<Upload | undefined> {
+    const [upload] = await this.db.select().from(uploads).where(eq(uploads.id, id));
+    return upload;
+  }
+
+  async listUploads({ page, pageSize, order, name }: UploadListQuery): Promise<{ uploads: Upload[]; total: number }> {
+    const where = name ? ilike(uploads.originalName, containsPattern(name)) : undefined;
+    const sort = order === 'asc' ? asc : desc;
+
+    const rows = await this.db
+      .select()
+      .from(uploads)
+      .where(where)
+      .orderBy(sort(uploads.uploadedAt), sort(uploads.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+    const [{ total }] = await this.db.select({ total: count() }).from(uploads).where(where);
+    return { uploads: rows, total };
+  }
+
+  async createProcessedFile(insertProcessedFile: InsertProcessedFile): Promise<ProcessedFile> {
+    const [processedFile] = await this.db.insert(processedFiles).values(insertProcessedFile).returning();
+    return processedFile;
+  }
+
+  async getProcessedFile(uploadId: number): Promise<ProcessedFile | undefined> {
+    const [processedFile] = await this.db
+      .select()
+      .from(processedFiles)
+      .where(eq(processedFiles.uploadId, uploadId))
+      .limit(1);
+    return processedFile;
+  }
+
+  async deleteUpload(id: number): Promise<ProcessedFile[] | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Processed files first: they reference the upload
+      const deleted = await tx.delete(processedFiles).where(eq(processedFiles.uploadId, id)).returning();
+      const [upload] = await tx.delete(uploads).where(eq(uploads.id, id)).returning({ id: uploads.id });
+      return upload ? deleted : undefined;
+    });
+  }
+
+  async listUploadIdsBefore(cutoff: Date): Promise<number[]> {
+    const rows = await this.db.select({ id: uploads.id }).from(uploads).where(lt(uploads.uploadedAt, cutoff));
+    return rows.map(row => row.id);
+  }
+
+  async findReferencedBlobs(hashes: string[]): Promise<Set<string>> {
+    const referenced = new Set<string>();
+    for (const batch of chunk(hashes, BLOB_QUERY_BATCH)) {
+      const outputs = await this.db
+        .select({ hash: processedFiles.outputBlob })
+        .from(processedFiles)
+        .where(inArray(processedFiles.outputBlob, batch));
+      const contents = await this.db.execute<{ hash: string }>(sql`
+        select distinct entry->>'contentBlob' as hash
+        from ${processedFiles}, json_array_elements(${processedFiles.entries}) as entry
+        where ${inArray(sql`entry->>'contentBlob'`, batch)}`);
+      [...outputs, ...contents.rows].forEach(row => referenced.add(row.hash));
+    }
+    return referenced;
+  }
+}
+
+// Same queries against the SQLite mirror of the schema, for single-node
+// deployments that need results to survive a restart without a Postgres server
+export class SqliteStorage implements IStorage {
+  constructor(private db: SqliteDatabase) {}
+
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const [upload] = await this.db.insert(sqliteSchema.uploads).values(insertUpload).returning();
+    return upload;
+  }
+
+  async getUpload(id: number): Promise<Upload | undefined> {
+    const [upload] = await this.db.select().from(sqliteSchema.uploads).where(eq(sqliteSchema.uploads.id, id));
+    return upload;
+  }
+
+  async listUploads({ page, pageSize, order, name }: UploadListQuery): Promise<{ uploads: Upload[]; total: number }> {
+    const table = sqliteSchema.uploads;
+    // SQLite's LIKE is already case-insensitive for ASCII but has no default escape character
+    const where = name ? sql`${table.originalName} like ${containsPattern(name)} escape '\\'` : undefined;
+    const sort = order === 'asc' ? asc : desc;
+
+    const rows = await this.db
+      .select()
+      .from(table)
+      .where(where)
+      .orderBy(sort(table.uploadedAt), sort(table.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+    const [{ total }] = await this.db.select({ total: count() }).from(table).where(where);
+    return { uploads: rows, total };
+  }
+
+  async createProcessedFile(insertProcessedFile: InsertProcessedFile): Promise<ProcessedFile> {
+    const [processedFile] = await this.db.insert(sqliteSchema.processedFiles).values(insertProcessedFile).returning();
+    return processedFile;
+  }
+
+  async getProcessedFile(uploadId: number): Promise<ProcessedFile | undefined> {
+    const [processedFile] = await this.db
+      .select()
+      .from(sqliteSchema.processedFiles)
+      .where(eq(sqliteSchema.processedFiles.uploadId, uploadId))
+      .limit(1);
+    return processedFile;
+  }
+
+  async deleteUpload(id: number): Promise<ProcessedFile[] | undefined> {
+    const { uploads: uploadsTable, processedFiles: processedTable } = sqliteSchema;
+    // better-sqlite3 transactions are synchronous, hence .all() / .get()
+    return this.db.transaction((tx) => {
+      const deleted = tx.delete(processedTable).where(eq(processedTable.uploadId, id)).returning().all();
+      const upload = tx.delete(uploadsTable).where(eq(uploadsTable.id, id)).returning({ id: uploadsTable.id }).get();
+      return upload ? deleted : undefined;
+    });
+  }
+
+  async listUploadIdsBefore(cutoff: Date): Promise<number[]> {
+    const table = sqliteSchema.uploads;
+    const rows = await this.db.select({ id: table.id }).from(table).where(lt(table.uploadedAt, cutoff));
+    return rows.map(row => row.id);
+  }
+
+  async findReferencedBlobs(hashes: string[]): Promise<Set<string>> {
+    const table = sqliteSchema.processedFiles;
+    const referenced = new Set<string>();
+    for (const batch of chunk(hashes, BLOB_QUERY_BATCH)) {
+      const outputs = await this.db
+        .select({ hash: table.outputBlob })
+        .from(table)
+        .where(inArray(table.outputBlob, batch));
+      const contents = await this.db.all<{ hash: string }>(sql`
+        select distinct json_extract(entry.value, '$.contentBlob') as hash
+        from ${table}, json_each(${table.entries}) as entry
+        where ${inArray(sql`json_extract(entry.value, '$.contentBlob')`, batch)}`);
+      [...outputs, ...contents].forEach(row => referenced.add(row.hash));
+    }
+    return referenced;
+  }
+}
+
+// STORAGE_BACKEND selects where uploads and results are kept: `memory` (the
+// default, lost on restart), `postgres` (needs DATABASE_URL) or `sqlite`
+// (a local file at SQLITE_PATH, `data/codearchive.db` by default)
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND ?? 'memory';
+  switch (backend) {
+    case 'memory':
+      return new MemStorage();
+    case 'postgres':
+      return new DatabaseStorage(createDatabase(process.env.DATABASE_URL));
+    case 'sqlite':
+      return new SqliteStorage(createSqliteDatabase(process.env.SQLITE_PATH ?? 'data/codearchive.db'));
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}"; expected "memory", "postgres" or "sqlite"`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,44 @@
+import { countTokens as countCl100kTokens } from "gpt-tokenizer/encoding/cl100k_base";
+
+export interface Tokenizer {
+  readonly name: string;
+  countTokens(text: string): number;
+}
+
+// Special tokens such as <|endoftext|> are counted as plain text: they can
+// legitimately appear in source files and must not abort processing
+const NO_SPECIAL_TOKENS = { disallowedSpecial: new Set<string>() };
+
+/**
+ * cl100k_base BPE (GPT-3.5/GPT-4 family). The merge ranks ship inside the
+ * gpt-tokenizer package, so nothing is downloaded at runtime.
+ */
+export const cl100kTokenizer: Tokenizer = {
+  name: 'cl100k_base',
+  countTokens: (text) => countCl100kTokens(text, NO_SPECIAL_TOKENS)
+};
+
+// Rough heuristic of ~4 characters per token, for when speed matters more than accuracy
+export const approximateTokenizer: Tokenizer = {
+  name: 'approximate',
+  countTokens: (text) => Math.ceil(text.length / 4)
+};
+
+export const DEFAULT_TOKENIZER = cl100kTokenizer.name;
+
+const tokenizers = new Map<string, Tokenizer>();
+
+export function registerTokenizer(tokenizer: Tokenizer): void {
+  tokenizers.set(tokenizer.name, tokenizer);
+}
+
+export function getTokenizer(name: string = DEFAULT_TOKENIZER): Tokenizer | undefined {
+  return tokenizers.get(name);
+}
+
+export function getTokenizerNames(): string[] {
+  return Array.from(tokenizers.keys());
+}
+
+registerTokenizer(cl100kTokenizer);
+registerTokenizer(approximateTokenizer);
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, json, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,12 +13,20 @@ export const uploads = pgTable("uploads", {
 
 export const processedFiles = pgTable("processed_files", {
   id: serial("id").primaryKey(),
-  uploadId: integer("upload_id").notNull(),
+  uploadId: integer("upload_id").notNull().references(() => uploads.id),
   fileTree: json("file_tree").notNull(),
-  formattedContent: text("formatted_content").notNull(),
+  // Blob store hash of the formatted output
+  outputBlob: text("output_blob").notNull(),
   stats: json("stats").notNull(),
+  options: json("options"),
+  // Archive entries (StoredEntry[]) kept so the output can be re-rendered
+  // with other options after the archive is deleted; contents are blobs
+  entries: json("entries"),
   processedAt: timestamp("processed_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Results are always looked up by their upload
+  index("processed_files_upload_id_idx").on(table.uploadId),
+]);
 
 export const insertUploadSchema = createInsertSchema(uploads).pick({
   filename: true,
@@ -30,16 +38,72 @@ export const insertUploadSchema = createInsertSchema(uploads).pick({
 export const insertProcessedFileSchema = createInsertSchema(processedFiles).pick({
   uploadId: true,
   fileTree: true,
-  formattedContent: true,
+  outputBlob: true,
   stats: true,
+  options: true,
+  entries: true,
+});
+
+const globPatternListSchema = z.array(z.string().trim().min(1).max(500)).max(100).default([]);
+
+export const outputFormatSchema = z.enum(['markdown', 'xml']);
+
+export const splitOptionsSchema = z.object({
+  // Maximum size of each part, measured in `unit`
+  limit: z.coerce.number().int().min(200).max(10_000_000),
+  unit: z.enum(['tokens', 'characters']).default('tokens'),
+});
+
+// Per-upload processing options, sent as a JSON string in the `options` form field
+export const uploadOptionsSchema = z.object({
+  // Glob patterns a file must match to be included; `!pattern` excludes again
+  include: globPatternListSchema,
+  // Glob patterns for files and folders to drop; `!pattern` re-includes
+  exclude: globPatternListSchema,
+  // Dot-prefixed names (e.g. `.vscode`, `.env.local`) to show or hide on top of the defaults
+  dotPaths: z.object({
+    allow: globPatternListSchema,
+    deny: globPatternListSchema,
+  }).default({}),
+  // Tokenizer used for per-file and total token estimates
+  tokenizer: z.string().trim().min(1).default('cl100k_base'),
+  // Markdown headings and fences, or `<file>` elements with CDATA content
+  format: outputFormatSchema.default('markdown'),
+  // Splits the output into parts no larger than the limit; null turns splitting off
+  split: splitOptionsSchema.nullish(),
+  // Exact project-relative file paths to keep (e.g. checked in the file tree),
+  // applied after the other filters; null or missing keeps every file
+  selection: z.array(z.string().min(1)).max(100_000).nullish(),
+  // Exact project-relative file paths to drop, the complement of `selection`;
+  // clients send whichever of the two lists is shorter
+  deselection: z.array(z.string().min(1)).max(100_000).nullish(),
+});
+
+// Query parameters of GET /api/uploads
+export const uploadListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  // Sorted by uploadedAt, newest first by default
+  order: z.enum(['asc', 'desc']).default('desc'),
+  // Case-insensitive substring of the original archive name
+  name: z.string().trim().max(200).optional(),
 });
 
 export type InsertUpload = z.infer<typeof insertUploadSchema>;
 export type Upload = typeof uploads.$inferSelect;
 export type InsertProcessedFile = z.infer<typeof insertProcessedFileSchema>;
 export type ProcessedFile = typeof processedFiles.$inferSelect;
+export type UploadOptions = z.infer<typeof uploadOptionsSchema>;
+export type SplitOptions = z.infer<typeof splitOptionsSchema>;
+export type OutputFormatName = z.infer<typeof outputFormatSchema>;
+export type FileSelection = Pick<UploadOptions, 'selection' | 'deselection'>;
+export type UploadListQuery = z.infer<typeof uploadListQuerySchema>;
+
+export const defaultUploadOptions: UploadOptions = uploadOptionsSchema.parse({});
 
 // Frontend types
+export type TextEncoding = 'utf-8' | 'utf-8-bom' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
 export interface FileTreeNode {
   name: string;
   path: string;
@@ -47,18 +111,105 @@ export interface FileTreeNode {
   children?: FileTreeNode[];
   size?: number;
   extension?: string;
+  // Fence language, set only for files whose content is in the output
+  language?: string;
+  // Set when content sniffing classified the file as binary
+  binary?: boolean;
+  // Encoding the file was transcoded from, for files in the output
+  encoding?: TextEncoding;
+  // Estimated tokens this file (or folder subtree) contributes to the output
+  tokens?: number;
+  // Line count, for files whose content is in the output
+  lines?: number;
+}
+
+// An archive entry that survived the built-in and .gitignore rules, as stored
+// for re-rendering; content is kept only for text files the output can include
+export interface RetainedEntry {
+  path: string;
+  isDirectory: boolean;
+  size: number;
+  binary?: boolean;
+  language?: string;
+  encoding?: TextEncoding;
+  content?: string;
+}
+
+// A retained entry as stored with a processed result: the content lives in
+// the blob store under its hash
+export interface StoredEntry extends Omit<RetainedEntry, 'content'> {
+  contentBlob?: string;
+}
+
+// A text file whose content is in the output
+export interface ExtractedFile {
+  path: string;
+  language: string;
+  encoding: TextEncoding;
+  size: number;
+  lines: number;
+  content: string;
+}
+
+// Machine-readable export of a processed archive (GET /api/processed/:uploadId/export)
+export interface ExportedFile extends ExtractedFile {
+  // Tokens of the file content alone, independent of the output format
+  tokens: number;
+}
+
+export interface ProcessedExport {
+  uploadId: number;
+  originalName: string;
+  stats: ProcessingStats;
+  options: UploadOptions;
+  files: ExportedFile[];
+}
+
+export interface OutputPart {
+  content: string;
+  tokens: number;
 }
 
 export interface ProcessingStats {
   totalFiles: number;
   totalFolders: number;
   linesOfCode: number;
+  binaryFiles: number;
+  totalTokens: number;
+  tokenizer: string;
   fileSize: string;
   processingTime: string;
 }
 
 export interface ProcessedOutput {
+  uploadId: number;
   fileTree: FileTreeNode[];
   formattedContent: string;
+  // Present when the output was split; each part carries a "Part k of N" header
+  parts?: OutputPart[];
   stats: ProcessingStats;
+  options?: UploadOptions;
+}
+
+export interface UploadListResponse {
+  // Dates are ISO strings once serialized
+  uploads: Upload[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Server configuration the client shows (GET /api/settings)
+export interface ServerSettings {
+  // Uploads and their results are purged this many days after upload; null keeps them forever
+  retentionDays: number | null;
+}
+
+export const SUPPORTED_ARCHIVE_EXTENSIONS = ['.zip', '.tar', '.tar.gz', '.tgz', '.tar.bz2', '.tbz2'] as const;
+
+export type ArchiveErrorCode = 'UNSUPPORTED_ARCHIVE' | 'CORRUPT_ARCHIVE';
+
+export interface UploadErrorResponse {
+  error: string;
+  code?: ArchiveErrorCode;
 }
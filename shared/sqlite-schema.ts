@@ -0,0 +1,34 @@
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+
+// SQLite mirror of the `uploads` and `processed_files` tables in ./schema, with
+// the same table and column names; JSON is stored as text and timestamps as
+// epoch milliseconds, so rows read back as the same Upload / ProcessedFile shapes
+
+export const uploads = sqliteTable("uploads", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  filename: text("filename").notNull(),
+  originalName: text("original_name").notNull(),
+  fileSize: integer("file_size").notNull(),
+  mimeType: text("mime_type").notNull(),
+  uploadedAt: integer("uploaded_at", { mode: "timestamp_ms" })
+    .default(sql`(unixepoch('subsec') * 1000)`)
+    .notNull(),
+});
+
+export const processedFiles = sqliteTable("processed_files", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  uploadId: integer("upload_id").notNull().references(() => uploads.id),
+  fileTree: text("file_tree", { mode: "json" }).notNull(),
+  // Blob store hash of the formatted output
+  outputBlob: text("output_blob").notNull(),
+  stats: text("stats", { mode: "json" }).notNull(),
+  options: text("options", { mode: "json" }),
+  entries: text("entries", { mode: "json" }),
+  processedAt: integer("processed_at", { mode: "timestamp_ms" })
+    .default(sql`(unixepoch('subsec') * 1000)`)
+    .notNull(),
+}, (table) => [
+  index("processed_files_upload_id_idx").on(table.uploadId),
+]);
+